@@ -48,6 +48,22 @@ export const AGENT_COORDINATION_ABI = [
     ],
   },
 
+  // Errors
+  { type: 'error', name: 'ERC8001_NotProposer', inputs: [] },
+  { type: 'error', name: 'ERC8001_ExpiredIntent', inputs: [] },
+  {
+    type: 'error',
+    name: 'ERC8001_ExpiredAcceptance',
+    inputs: [{ name: 'participant', type: 'address' }],
+  },
+  { type: 'error', name: 'ERC8001_BadSignature', inputs: [] },
+  { type: 'error', name: 'ERC8001_NotParticipant', inputs: [] },
+  { type: 'error', name: 'ERC8001_DuplicateAcceptance', inputs: [] },
+  { type: 'error', name: 'ERC8001_ParticipantsNotCanonical', inputs: [] },
+  { type: 'error', name: 'ERC8001_NonceTooLow', inputs: [] },
+  { type: 'error', name: 'ERC8001_PayloadHashMismatch', inputs: [] },
+  { type: 'error', name: 'ERC8001_NotReady', inputs: [] },
+
   // Read functions
   {
     type: 'function',
@@ -250,6 +266,22 @@ export const BOUNDED_EXECUTION_ABI = [
     ],
   },
 
+  // Errors
+  { type: 'error', name: 'BoundedExecution_PolicyNotFound', inputs: [] },
+  { type: 'error', name: 'BoundedExecution_PolicyInactive', inputs: [] },
+  { type: 'error', name: 'BoundedExecution_NotAgent', inputs: [] },
+  { type: 'error', name: 'BoundedExecution_OutsideWindow', inputs: [] },
+  { type: 'error', name: 'BoundedExecution_NoCallsRemaining', inputs: [] },
+  { type: 'error', name: 'BoundedExecution_OutOfBounds', inputs: [] },
+  {
+    type: 'error',
+    name: 'BoundedExecution_OverSpendingLimit',
+    inputs: [
+      { name: 'requested', type: 'uint256' },
+      { name: 'remaining', type: 'uint256' },
+    ],
+  },
+
   // Read functions
   {
     type: 'function',
@@ -332,3 +364,84 @@ export const BOUNDED_EXECUTION_ABI = [
     outputs: [],
   },
 ] as const;
+
+/**
+ * Minimal Multicall3 ABI for batching writes.
+ * Deployed at the same address on most chains; see chain.contracts.multicall3.
+ */
+export const MULTICALL3_ABI = [
+  {
+    type: 'function',
+    name: 'aggregate3',
+    stateMutability: 'payable',
+    inputs: [
+      {
+        name: 'calls',
+        type: 'tuple[]',
+        components: [
+          { name: 'target', type: 'address' },
+          { name: 'allowFailure', type: 'bool' },
+          { name: 'callData', type: 'bytes' },
+        ],
+      },
+    ],
+    outputs: [
+      {
+        name: 'returnData',
+        type: 'tuple[]',
+        components: [
+          { name: 'success', type: 'bool' },
+          { name: 'returnData', type: 'bytes' },
+        ],
+      },
+    ],
+  },
+] as const;
+
+/**
+ * ERC-1271 signature validation for smart-contract wallets.
+ */
+export const ERC1271_ABI = [
+  {
+    type: 'function',
+    name: 'isValidSignature',
+    stateMutability: 'view',
+    inputs: [
+      { name: 'hash', type: 'bytes32' },
+      { name: 'signature', type: 'bytes' },
+    ],
+    outputs: [{ name: 'magicValue', type: 'bytes4' }],
+  },
+] as const;
+
+/**
+ * Optional acceptance nonce getter exposed by some coordination contracts.
+ */
+export const ACCEPTANCE_NONCE_ABI = [
+  {
+    type: 'function',
+    name: 'getAcceptanceNonce',
+    stateMutability: 'view',
+    inputs: [{ name: 'participant', type: 'address' }],
+    outputs: [{ name: '', type: 'uint64' }],
+  },
+] as const;
+
+/**
+ * Chainlink AggregatorV3 price feed, read by oraclePrice conditions.
+ */
+export const AGGREGATOR_V3_ABI = [
+  {
+    type: 'function',
+    name: 'latestRoundData',
+    stateMutability: 'view',
+    inputs: [],
+    outputs: [
+      { name: 'roundId', type: 'uint80' },
+      { name: 'answer', type: 'int256' },
+      { name: 'startedAt', type: 'uint256' },
+      { name: 'updatedAt', type: 'uint256' },
+      { name: 'answeredInRound', type: 'uint80' },
+    ],
+  },
+] as const;
@@ -0,0 +1,140 @@
+import { describe, expect, it } from 'vitest';
+import {
+  type AbiEvent,
+  type Address,
+  type Hash,
+  type Hex,
+  type PublicClient,
+  type WalletClient,
+  encodeAbiParameters,
+  encodeEventTopics,
+  encodeFunctionData,
+  erc20Abi,
+  getAbiItem,
+  getAddress,
+} from 'viem';
+import { mainnet } from 'viem/chains';
+
+import type { CreatePolicyOptions } from './types';
+import { BoundedClient } from './bounded';
+import { EventNotFoundError } from './errors';
+import { BOUNDED_EXECUTION_ABI } from './abis/AgentCoordination';
+
+const contractAddress = getAddress('0x00000000000000000000000000000000000000c1');
+const agent = getAddress('0x00000000000000000000000000000000000000a1');
+const token = getAddress('0x00000000000000000000000000000000000000d1');
+const policyId = `0x${'ab'.repeat(32)}` as Hash;
+
+type BoundedEventName = 'PolicyRegistered' | 'SpendingUpdated' | 'BoundedExecutionSuccess' | 'BoundedExecutionFailed';
+
+/**
+ * Encode an event as it appears in a transaction receipt.
+ */
+function receiptLog(eventName: BoundedEventName, args: Record<string, unknown>, address: Address = contractAddress) {
+  const event = getAbiItem({ abi: BOUNDED_EXECUTION_ABI, name: eventName }) as AbiEvent;
+  const data = event.inputs.filter(input => !input.indexed);
+
+  return {
+    address,
+    topics: encodeEventTopics({ abi: BOUNDED_EXECUTION_ABI, eventName, args } as never) as [Hex, ...Hex[]],
+    data: encodeAbiParameters(data, data.map(input => args[input.name!])),
+  };
+}
+
+/**
+ * A BoundedClient over stubbed clients whose receipts carry `chain.logs`.
+ */
+function stubbed() {
+  const chain = {
+    logs: [] as Array<ReturnType<typeof receiptLog>>,
+    writes: [] as Array<{ functionName: string; args: readonly unknown[] }>,
+  };
+
+  const publicClient = {
+    chain: mainnet,
+    simulateContract: async () => ({ result: [true, '0x'] }),
+    waitForTransactionReceipt: async () => ({ status: 'success', logs: chain.logs }),
+  } as unknown as PublicClient;
+
+  const walletClient = {
+    account: { address: agent, type: 'json-rpc' },
+    writeContract: async (request: { functionName: string; args: readonly unknown[] }) => {
+      chain.writes.push(request);
+      return `0x${'ee'.repeat(32)}`;
+    },
+  } as unknown as WalletClient;
+
+  const client = new BoundedClient({ contractAddress, publicClient, walletClient });
+  return { chain, client };
+}
+
+describe('BoundedClient.registerPolicy', () => {
+  const options: CreatePolicyOptions = {
+    agent,
+    actions: [{ target: token, selector: '0x095ea7b3' }],
+    spendingLimit: 10n,
+    maxCalls: 3,
+    durationSeconds: 3600,
+  };
+  const boundsRoot = `0x${'77'.repeat(32)}` as Hash;
+
+  it('takes the policy id from this contract\'s PolicyRegistered log for the agent', async () => {
+    const { chain, client } = stubbed();
+    const other = getAddress('0x00000000000000000000000000000000000000a2');
+    chain.logs = [
+      receiptLog('PolicyRegistered', { policyId: `0x${'01'.repeat(32)}`, agent, boundsRoot }, token),
+      receiptLog('PolicyRegistered', { policyId: `0x${'02'.repeat(32)}`, agent: other, boundsRoot }),
+      receiptLog('PolicyRegistered', { policyId, agent, boundsRoot }),
+    ];
+
+    const registered = await client.registerPolicy(options);
+
+    expect(registered.policyId).toBe(policyId);
+    expect(chain.writes[0].functionName).toBe('registerPolicy');
+
+    // Actions are kept under the decoded id, so calls outside them are refused
+    await expect(client.execute(registered.policyId, {
+      target: token,
+      callData: encodeFunctionData({ abi: erc20Abi, functionName: 'transfer', args: [agent, 1n] }),
+    })).rejects.toThrow(/not in the policy's bounds/);
+  });
+
+  it('throws EventNotFoundError without a matching log', async () => {
+    const { chain, client } = stubbed();
+    chain.logs = [receiptLog('PolicyRegistered', { policyId, agent, boundsRoot }, token)];
+
+    await expect(client.registerPolicy(options)).rejects.toBeInstanceOf(EventNotFoundError);
+  });
+});
+
+describe('BoundedClient.execute', () => {
+  const action = {
+    target: token,
+    callData: encodeFunctionData({ abi: erc20Abi, functionName: 'approve', args: [agent, 1n] }),
+  };
+
+  it('finds execution events whatever the case of the policy id', async () => {
+    const { chain, client } = stubbed();
+    chain.logs = [
+      receiptLog('BoundedExecutionSuccess', { policyId, agent, target: token, selector: '0x095ea7b3', value: 0n }),
+      receiptLog('SpendingUpdated', { policyId, agent, spent: 5n, limit: 10n }),
+    ];
+
+    const result = await client.execute(policyId.toUpperCase().replace('0X', '0x') as Hash, action, []);
+
+    expect(result).toMatchObject({ success: true, selector: '0x095ea7b3', newSpent: 5n });
+  });
+
+  it('ignores events for other policies and contracts', async () => {
+    const { chain, client } = stubbed();
+    chain.logs = [
+      receiptLog('BoundedExecutionSuccess', { policyId: `0x${'cd'.repeat(32)}`, agent, target: token, selector: '0x095ea7b3', value: 0n }),
+      receiptLog('BoundedExecutionFailed', { policyId, agent, reason: 'spoofed' }, token),
+      receiptLog('BoundedExecutionFailed', { policyId, agent, reason: 'inner call failed' }),
+    ];
+
+    const result = await client.execute(policyId, action, []);
+
+    expect(result).toMatchObject({ success: false, reason: 'inner call failed' });
+  });
+});
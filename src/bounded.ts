@@ -5,6 +5,7 @@
  */
 
 import {
+  type Abi,
   type Address,
   type Hash,
   type Hex,
@@ -12,22 +13,52 @@ import {
   type WalletClient,
   type Chain,
   type Account,
+  type ContractFunctionArgs,
+  type ContractFunctionName,
+  type ContractFunctionReturnType,
+  type SimulateContractParameters,
+  type WriteContractParameters,
+  parseEventLogs,
 } from 'viem';
 
 import type {
   Policy,
   ActionBound,
   CreatePolicyOptions,
+  BoundedExecutionResult,
+  BoundsTreeOptions,
+  TokenBudget,
+  TokenSpend,
+  TokenUsage,
+  WriteOptions,
 } from './types';
 
+import { LEGACY_BOUNDS_TREE } from './utils';
+
+import { BoundsTree } from './merkle';
+
+import { checkPolicyState, matchAction } from './policy';
+
 import {
-  computeActionLeaf,
-  computeBoundsRoot,
-  generateProof,
-} from './utils';
+  applyTokenSpend,
+  createTokenBudget,
+  decodeTokenSpend,
+  getTokenAllowance,
+  getTokenUsage,
+  remainingTokenBudget,
+  tokenSpendCost,
+} from './tokens';
+
+import { KeyedLock } from './nonces';
+
+import { type Storage, MemoryStorage } from './storage';
+
+import { EventNotFoundError, TokenLimitExceededError, decodeContractError } from './errors';
 
 import { BOUNDED_EXECUTION_ABI } from './abis/AgentCoordination';
 
+type BoundedWriteFunction = ContractFunctionName<typeof BOUNDED_EXECUTION_ABI, 'nonpayable' | 'payable'>;
+
 // ═══════════════════════════════════════════════════════════════════════════
 // CLIENT CLASS
 // ═══════════════════════════════════════════════════════════════════════════
@@ -71,18 +102,31 @@ export class BoundedClient {
   private readonly walletClient?: WalletClient;
   private readonly chain: Chain;
 
-  // Cache of registered policies for proof generation
-  private readonly policyActions: Map<string, ActionBound[]> = new Map();
+  // Registered policy actions, for proof generation
+  private readonly storage: Storage;
+  private readonly tokenBudgets: TokenBudgetStorage;
+  private readonly treeOptions: BoundsTreeOptions;
+  private readonly tokenLocks: KeyedLock = new KeyedLock();
 
   constructor(options: {
     contractAddress: Address;
     publicClient: PublicClient;
     walletClient?: WalletClient;
     chain?: Chain;
+    /** Where policy actions are kept (default: in memory) */
+    storage?: Storage;
+    /**
+     * Bounds tree encoding the contract verifies against
+     * (default: LEGACY_BOUNDS_TREE; use {} for OpenZeppelin's StandardMerkleTree)
+     */
+    tree?: BoundsTreeOptions;
   }) {
     this.contractAddress = options.contractAddress;
     this.publicClient = options.publicClient;
     this.walletClient = options.walletClient;
+    this.storage = options.storage ?? new MemoryStorage();
+    this.tokenBudgets = hasTokenBudgets(this.storage) ? this.storage : new MemoryStorage();
+    this.treeOptions = options.tree ?? LEGACY_BOUNDS_TREE;
 
     const chain = options.chain ?? options.publicClient.chain;
     if (!chain) {
@@ -155,6 +199,43 @@ export class BoundedClient {
     }) as Promise<boolean>;
   }
 
+  /**
+   * Check offline whether an action is in a policy's bounds, before
+   * spending gas on it. Only membership is checked, not spending,
+   * window or call limits.
+   *
+   * With stored actions, the call has to match one of them (argument
+   * constraints included, decoded with `action.abi`), and a given proof
+   * is verified against their root. Without stored actions a proof is
+   * required and is verified, as an unconstrained leaf, against the
+   * on-chain root.
+   */
+  async checkAction(
+      policyId: Hash,
+      action: { target: Address; callData: Hex; abi?: Abi },
+      proof?: Hash[]
+  ): Promise<boolean> {
+    const actions = await this.storage.getPolicyActions(policyId);
+    if (actions) {
+      const tree = this.buildTree(actions);
+      const match = matchAction(tree, action, action.abi);
+      if (!match.matched) return false;
+      return proof ? tree.verifyProof(match.action, proof) : true;
+    }
+
+    const bound: ActionBound = {
+      target: action.target,
+      selector: action.callData.slice(0, 10) as Hex,
+    };
+
+    if (!proof) {
+      throw new Error(`No actions stored for policy ${policyId}; pass a proof or call cacheActions()`);
+    }
+
+    const { boundsRoot } = await this.getPolicy(policyId);
+    return BoundsTree.verify(boundsRoot, this.buildTree([bound]).leafHash(bound), proof);
+  }
+
   /**
    * Get remaining budget for a policy.
    */
@@ -163,6 +244,23 @@ export class BoundedClient {
     return policy.spendingLimit - policy.spent;
   }
 
+  /**
+   * Get per-token budget usage for a policy, from the client-side ledger.
+   * Native value is reported by getRemainingBudget().
+   */
+  async getTokenUsage(policyId: Hash): Promise<TokenUsage[]> {
+    const budget = await this.tokenBudgets.getTokenBudget(policyId);
+    return budget ? getTokenUsage(budget) : [];
+  }
+
+  /**
+   * Get the client-side token budget for a policy,
+   * e.g. for checkActionAgainstPolicy().
+   */
+  async getTokenBudget(policyId: Hash): Promise<TokenBudget | undefined> {
+    return this.tokenBudgets.getTokenBudget(policyId);
+  }
+
   /**
    * Check if policy is valid (active and within time window).
    */
@@ -170,12 +268,7 @@ export class BoundedClient {
     const policy = await this.getPolicy(policyId);
     const now = BigInt(Math.floor(Date.now() / 1000));
 
-    return (
-        policy.active &&
-        now >= policy.windowStart &&
-        now < policy.windowEnd &&
-        policy.callsRemaining > 0n
-    );
+    return checkPolicyState(policy, now).allowed;
   }
 
   // ═══════════════════════════════════════════════════════════════════════════
@@ -189,10 +282,69 @@ export class BoundedClient {
     return this.walletClient.account;
   }
 
+  /**
+   * Submit a contract write, simulating it first unless disabled.
+   * Reverts are decoded into typed errors either way.
+   *
+   * @returns The transaction hash and, when simulated, the function's return value
+   */
+  private async write<functionName extends BoundedWriteFunction>(
+      functionName: functionName,
+      args: ContractFunctionArgs<typeof BOUNDED_EXECUTION_ABI, 'nonpayable' | 'payable', functionName>,
+      options?: WriteOptions
+  ): Promise<{
+    txHash: Hash;
+    result?: ContractFunctionReturnType<typeof BOUNDED_EXECUTION_ABI, 'nonpayable' | 'payable', functionName>;
+  }> {
+    if (!this.walletClient) {
+      throw new Error('Wallet client required for write operations');
+    }
+
+    const call = {
+      account: this.getAccount(),
+      chain: this.chain,
+      address: this.contractAddress,
+      abi: BOUNDED_EXECUTION_ABI,
+      functionName,
+      args,
+    };
+    const transaction = call as WriteContractParameters<
+        typeof BOUNDED_EXECUTION_ABI,
+        functionName,
+        typeof args,
+        Chain | undefined,
+        Account | undefined,
+        Chain
+    >;
+
+    try {
+      if (options?.simulate === false) {
+        const txHash = await this.walletClient.writeContract(transaction);
+        return { txHash };
+      }
+
+      const { result } = await this.publicClient.simulateContract(call as SimulateContractParameters<
+          typeof BOUNDED_EXECUTION_ABI,
+          functionName,
+          typeof args,
+          Chain | undefined,
+          Chain,
+          Account
+      >);
+      const txHash = await this.walletClient.writeContract(transaction);
+      return { txHash, result };
+    } catch (error) {
+      throw decodeContractError(error, 'bounded');
+    }
+  }
+
   /**
    * Register a new policy.
    */
-  async registerPolicy(options: CreatePolicyOptions): Promise<{
+  async registerPolicy(
+      options: CreatePolicyOptions,
+      writeOptions?: WriteOptions
+  ): Promise<{
     policyId: Hash;
     txHash: Hash;
     boundsRoot: Hash;
@@ -201,10 +353,8 @@ export class BoundedClient {
       throw new Error('Wallet client required for write operations');
     }
 
-    const account = this.getAccount();
-
     // Compute bounds root
-    const boundsRoot = computeBoundsRoot(options.actions);
+    const boundsRoot = this.buildTree(options.actions).root;
 
     // Calculate time window
     const now = BigInt(Math.floor(Date.now() / 1000));
@@ -212,37 +362,58 @@ export class BoundedClient {
     const windowEnd = now + BigInt(options.durationSeconds);
 
     // Submit transaction
-    const txHash = await this.walletClient.writeContract({
-      account,
-      chain: this.chain,
-      address: this.contractAddress,
-      abi: BOUNDED_EXECUTION_ABI,
-      functionName: 'registerPolicy',
-      args: [
-        options.agent,
-        boundsRoot,
-        options.spendingLimit,
-        windowStart,
-        windowEnd,
-        BigInt(options.maxCalls),
-      ],
-    });
+    const { txHash } = await this.write(
+        'registerPolicy',
+        [
+          options.agent,
+          boundsRoot,
+          options.spendingLimit,
+          windowStart,
+          windowEnd,
+          BigInt(options.maxCalls),
+        ],
+        writeOptions
+    );
 
     // Wait for receipt to get policyId from event
     const receipt = await this.publicClient.waitForTransactionReceipt({ hash: txHash });
 
-    // For now, compute policyId the same way the contract does
-    // In production, parse from event
-    const policyId = receipt.logs[0]?.topics?.[1] as Hash ?? ('0x' + '0'.repeat(64)) as Hash;
+    // Only trust PolicyRegistered logs from this contract for this agent;
+    // other contracts may emit logs in the same transaction
+    const [registered] = parseEventLogs({
+      abi: BOUNDED_EXECUTION_ABI,
+      eventName: 'PolicyRegistered',
+      logs: receipt.logs.filter(
+          log => log.address.toLowerCase() === this.contractAddress.toLowerCase()
+      ),
+      args: { agent: options.agent },
+    });
+
+    if (!registered) {
+      throw new EventNotFoundError('PolicyRegistered', txHash);
+    }
+
+    const policyId = registered.args.policyId;
 
-    // Cache actions for proof generation
-    this.policyActions.set(policyId, options.actions);
+    // Persist actions for proof generation
+    await this.storage.putPolicyActions(policyId, options.actions);
+    if (options.tokenLimits) {
+      await this.tokenBudgets.putTokenBudget(policyId, createTokenBudget(options.tokenLimits));
+    }
 
     return { policyId, txHash, boundsRoot };
   }
 
   /**
    * Execute an action within policy bounds.
+   * `action.abi` is needed when the matching stored actions have
+   * argument constraints; they are checked before sending.
+   *
+   * ERC-20 transfer and transferFrom amounts, and the change in allowance
+   * an approve makes, are charged to the policy's token budget before
+   * sending, and refunded if the call is not sent or its inner call fails.
+   *
+   * @throws TokenLimitExceededError if the call would exceed a token limit
    */
   async execute(
       policyId: Hash,
@@ -250,113 +421,215 @@ export class BoundedClient {
         target: Address;
         callData: Hex;
         value?: bigint;
+        abi?: Abi;
       },
-      proof?: Hash[]
-  ): Promise<{
-    txHash: Hash;
-    success: boolean;
-  }> {
+      proof?: Hash[],
+      writeOptions?: WriteOptions
+  ): Promise<BoundedExecutionResult> {
     if (!this.walletClient) {
       throw new Error('Wallet client required for write operations');
     }
 
-    const account = this.getAccount();
     const value = action.value ?? 0n;
 
-    // Generate proof if not provided
+    // Generate proof if not provided, and check a provided one
+    // against stored actions before paying for a revert
     let merkleProof = proof;
-    if (!merkleProof) {
-      const actions = this.policyActions.get(policyId);
-      if (actions) {
-        const selector = action.callData.slice(0, 10) as Hex;
-        const actionIndex = actions.findIndex(
-            a => a.target.toLowerCase() === action.target.toLowerCase() &&
-                a.selector.toLowerCase() === selector.toLowerCase()
-        );
-
-        if (actionIndex >= 0) {
-          merkleProof = generateProof(actions, actionIndex);
-        }
+    const actions = await this.storage.getPolicyActions(policyId);
+    if (!merkleProof && !actions) {
+      throw new Error(`No actions stored for policy ${policyId}; pass a proof or call cacheActions()`);
+    }
+
+    if (actions) {
+      const tree = this.buildTree(actions);
+      const match = matchAction(tree, action, action.abi);
+      if (!match.matched) {
+        throw new Error(`Action not allowed by policy ${policyId}: ${match.reason}`);
+      }
+
+      if (!merkleProof) {
+        merkleProof = tree.getProof(match.action);
+      } else if (!tree.verifyProof(match.action, merkleProof)) {
+        throw new Error(`Proof for ${action.target} does not verify against policy ${policyId}`);
       }
     }
 
-    if (!merkleProof) {
-      merkleProof = []; // Empty proof for single-action policies
+    const spend = decodeTokenSpend(action.target, action.callData);
+    const refund = spend && await this.chargeTokenSpend(policyId, spend);
+
+    // The inner call's return data is not emitted in any event,
+    // so it is only available from the simulation
+    let txHash: Hash;
+    let returnData: Hex | undefined;
+    try {
+      const sent = await this.write(
+          'executeBounded',
+          [policyId, action.target, action.callData, value, merkleProof as Hash[]],
+          writeOptions
+      );
+      txHash = sent.txHash;
+      returnData = sent.result?.[1];
+    } catch (error) {
+      if (refund) await this.refundTokenSpend(policyId, refund);
+      throw error;
     }
 
-    // Submit transaction
-    const txHash = await this.walletClient.writeContract({
-      account,
-      chain: this.chain,
-      address: this.contractAddress,
+    // Wait for receipt
+    const receipt = await this.publicClient.waitForTransactionReceipt({ hash: txHash });
+
+    // The transaction can succeed while the inner call fails, so the
+    // outcome comes from the execution events rather than receipt.status
+    const events = parseEventLogs({
       abi: BOUNDED_EXECUTION_ABI,
-      functionName: 'executeBounded',
-      args: [policyId, action.target, action.callData, value, merkleProof],
+      logs: receipt.logs.filter(
+          log => log.address.toLowerCase() === this.contractAddress.toLowerCase()
+      ),
+      // Decoded bytes32 values are lowercase hex, and viem compares them exactly
+      args: { policyId: policyId.toLowerCase() as Hash },
     });
 
-    // Wait for receipt
-    const receipt = await this.publicClient.waitForTransactionReceipt({ hash: txHash });
+    const executed = events.find(e => e.eventName === 'BoundedExecutionSuccess');
+    const failed = events.find(e => e.eventName === 'BoundedExecutionFailed');
+    const spending = events.find(e => e.eventName === 'SpendingUpdated');
 
-    // Check if execution succeeded (from event)
-    const success = receipt.status === 'success';
+    if (refund && !executed) {
+      await this.refundTokenSpend(policyId, refund);
+    }
+
+    if (!executed && !failed && receipt.status === 'success') {
+      throw new EventNotFoundError('BoundedExecutionSuccess', txHash);
+    }
 
-    return { txHash, success };
+    return {
+      txHash,
+      success: executed !== undefined,
+      reason: failed?.args.reason ?? (receipt.status === 'reverted' ? 'Transaction reverted' : undefined),
+      returnData,
+      selector: executed?.args.selector ?? (action.callData.slice(0, 10) as Hex),
+      valueSpent: executed?.args.value ?? 0n,
+      newSpent: spending?.args.spent,
+    };
   }
 
   /**
    * Revoke a policy.
    */
-  async revokePolicy(policyId: Hash): Promise<{ txHash: Hash }> {
+  async revokePolicy(
+      policyId: Hash,
+      writeOptions?: WriteOptions
+  ): Promise<{ txHash: Hash }> {
     if (!this.walletClient) {
       throw new Error('Wallet client required for write operations');
     }
 
-    const account = this.getAccount();
+    const { txHash } = await this.write('revokePolicy', [policyId], writeOptions);
 
-    const txHash = await this.walletClient.writeContract({
-      account,
-      chain: this.chain,
-      address: this.contractAddress,
-      abi: BOUNDED_EXECUTION_ABI,
-      functionName: 'revokePolicy',
-      args: [policyId],
-    });
-
-    // Remove from cache
-    this.policyActions.delete(policyId);
+    // Remove from storage
+    await this.storage.deletePolicyActions(policyId);
+    await this.tokenBudgets.deleteTokenBudget(policyId);
 
     return { txHash };
   }
 
+  /**
+   * Charge a token spend to a policy's budget, refusing it if it would
+   * exceed the token's limit. Tokens without a limit are only tracked.
+   *
+   * @returns The spend that undoes this one, for refundTokenSpend()
+   */
+  private async chargeTokenSpend(policyId: Hash, spend: TokenSpend): Promise<TokenSpend> {
+    return this.tokenLocks.run(policyId.toLowerCase(), async () => {
+      const budget = await this.tokenBudgets.getTokenBudget(policyId) ?? createTokenBudget({});
+
+      const cost = tokenSpendCost(budget, spend);
+      const remaining = remainingTokenBudget(budget, spend.token);
+      if (remaining !== undefined && cost > remaining) {
+        throw new TokenLimitExceededError(policyId, spend.token, cost, remaining);
+      }
+
+      await this.tokenBudgets.putTokenBudget(policyId, applyTokenSpend(budget, spend));
+
+      // Undo an approve by restoring the previous allowance
+      return spend.method === 'approve'
+          ? { ...spend, amount: getTokenAllowance(budget, spend.token, spend.to) }
+          : { ...spend, amount: -spend.amount };
+    });
+  }
+
+  private async refundTokenSpend(policyId: Hash, refund: TokenSpend): Promise<void> {
+    await this.tokenLocks.run(policyId.toLowerCase(), async () => {
+      const budget = await this.tokenBudgets.getTokenBudget(policyId);
+      if (budget) {
+        await this.tokenBudgets.putTokenBudget(policyId, applyTokenSpend(budget, refund));
+      }
+    });
+  }
+
   // ═══════════════════════════════════════════════════════════════════════════
   // UTILITIES
   // ═══════════════════════════════════════════════════════════════════════════
 
+  /**
+   * Build a bounds tree with this client's tree options.
+   */
+  buildTree(actions: ActionBound[]): BoundsTree {
+    return BoundsTree.of(actions, this.treeOptions);
+  }
+
   /**
    * Compute bounds root without submitting.
    */
   computeBoundsRoot(actions: ActionBound[]): Hash {
-    return computeBoundsRoot(actions);
+    return this.buildTree(actions).root;
   }
 
   /**
    * Compute action leaf.
    */
   computeActionLeaf(action: ActionBound): Hash {
-    return computeActionLeaf(action);
+    return this.buildTree([action]).leafHash(action);
   }
 
   /**
    * Generate proof for an action.
    */
   generateProof(actions: ActionBound[], actionIndex: number): Hash[] {
-    return generateProof(actions, actionIndex);
+    return this.buildTree(actions).getProof(actionIndex);
+  }
+
+  /**
+   * Store policy actions for proof generation,
+   * e.g. for a policy registered by another client.
+   */
+  async cacheActions(policyId: Hash, actions: ActionBound[]): Promise<void> {
+    await this.storage.putPolicyActions(policyId, actions);
   }
 
   /**
-   * Cache policy actions for proof generation.
+   * Set a policy's per-token limits, keeping what has been spent so far,
+   * e.g. for a policy registered by another client.
    */
-  cacheActions(policyId: Hash, actions: ActionBound[]): void {
-    this.policyActions.set(policyId, actions);
+  async setTokenLimits(policyId: Hash, limits: Record<Address, bigint>): Promise<void> {
+    await this.tokenLocks.run(policyId.toLowerCase(), async () => {
+      const existing = await this.tokenBudgets.getTokenBudget(policyId);
+      const budget = createTokenBudget(limits);
+      await this.tokenBudgets.putTokenBudget(policyId, {
+        ...budget,
+        spent: existing?.spent ?? {},
+        allowances: existing?.allowances ?? {},
+      });
+    });
   }
-}
\ No newline at end of file
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// HELPERS
+// ═══════════════════════════════════════════════════════════════════════════
+
+type TokenBudgetStorage = Required<Pick<Storage, 'getTokenBudget' | 'putTokenBudget' | 'deleteTokenBudget'>>;
+
+function hasTokenBudgets(storage: Storage): storage is Storage & TokenBudgetStorage {
+  return typeof storage.getTokenBudget === 'function' &&
+      typeof storage.putTokenBudget === 'function' &&
+      typeof storage.deleteTokenBudget === 'function';
+}
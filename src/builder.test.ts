@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { erc20Abi, getAddress, parseAbi, toFunctionSelector } from 'viem';
+
+import { PolicyBuilder } from './builder';
+
+const agent = getAddress('0x00000000000000000000000000000000000000a1');
+const payroll = getAddress('0x00000000000000000000000000000000000000a2');
+const usdc = getAddress('0x00000000000000000000000000000000000000c1');
+const router = getAddress('0x00000000000000000000000000000000000000c2');
+
+const overloaded = parseAbi([
+  'function swap(uint256 amountIn)',
+  'function swap(uint256 amountIn, address to)',
+]);
+
+function builder() {
+  return new PolicyBuilder({ agent, spendingLimit: 10n, maxCalls: 5, durationSeconds: 3600 });
+}
+
+describe('PolicyBuilder', () => {
+  it('resolves functions by name and by signature', () => {
+    const policy = builder()
+        .allow({ target: usdc, abi: erc20Abi, functions: ['transfer', 'approve'] })
+        .allow({ target: router, functions: ['swap(uint256 amountIn, address to)'] })
+        .build();
+
+    expect(policy).toMatchObject({ agent, spendingLimit: 10n, maxCalls: 5, durationSeconds: 3600 });
+    expect(policy.actions).toEqual([
+      { target: usdc, selector: '0xa9059cbb' },
+      { target: usdc, selector: '0x095ea7b3' },
+      { target: router, selector: toFunctionSelector('swap(uint256,address)') },
+    ]);
+  });
+
+  it('adds each target, selector and constraints combination once', () => {
+    const constraints = [{ kind: 'oneOf' as const, arg: 0, values: [payroll] }];
+    const built = builder()
+        .allow({ target: usdc, abi: erc20Abi, functions: ['transfer'] })
+        .allow({ target: usdc, functions: ['function transfer(address to, uint256 amount)'] })
+        .allow({ target: usdc, abi: erc20Abi, functions: ['transfer'], constraints });
+
+    expect(built.actions).toEqual([
+      { target: usdc, selector: '0xa9059cbb' },
+      { target: usdc, selector: '0xa9059cbb', constraints },
+    ]);
+  });
+
+  it.each([
+    ['unknown names, suggesting close ones', { abi: erc20Abi, functions: ['transfr'] }, /did you mean transfer\?/],
+    ['overloaded names', { abi: overloaded, functions: ['swap'] }, /overloaded.*swap\(uint256\), swap\(uint256,address\)/],
+    ['signatures missing from the ABI', { abi: erc20Abi, functions: ['mint(address,uint256)'] }, /not in the ABI/],
+    ['unparseable signatures', { functions: ['transfer(address'] }, /Cannot parse/],
+    ['names without an ABI', { functions: ['transfer'] }, /pass an ABI/],
+    ['an empty function list', { abi: erc20Abi, functions: [] }, /No functions/],
+  ])('rejects %s', (_, options, message) => {
+    expect(() => builder().allow({ target: usdc, ...options })).toThrow(message);
+  });
+
+  it('rejects targets that are not checksummed addresses', () => {
+    expect(() => builder().allow({ target: usdc.toLowerCase() as typeof usdc, abi: erc20Abi, functions: ['transfer'] }))
+        .toThrow(/not checksummed/);
+    expect(() => builder().allow({ target: '0x1234', abi: erc20Abi, functions: ['transfer'] }))
+        .toThrow(/not an address/);
+  });
+
+  it('requires at least one action to build', () => {
+    expect(() => builder().build()).toThrow(/At least one action/);
+  });
+
+  it('summarizes the policy', () => {
+    const summary = builder()
+        .allow({
+          target: usdc,
+          label: 'USDC',
+          abi: erc20Abi,
+          functions: ['transfer'],
+          constraints: [{ kind: 'max', arg: 1, value: 100n }],
+        })
+        .summary();
+
+    expect(summary.split('\n')).toEqual([
+      `Policy for agent ${agent}`,
+      '  spending limit: 10 wei',
+      '  max calls: 5',
+      '  duration: 3600s',
+      '  allowed actions (1):',
+      `    USDC (${usdc}) transfer(address,uint256) [0xa9059cbb]`,
+      '      arg 1 at most 100',
+    ]);
+  });
+});
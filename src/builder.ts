@@ -0,0 +1,221 @@
+/**
+ * @erc8001/sdk - Policy Builder
+ *
+ * Builds CreatePolicyOptions from contract ABIs and function signatures,
+ * so selectors are resolved rather than hand-computed.
+ */
+
+import {
+  type Abi,
+  type AbiFunction,
+  type Address,
+  getAddress,
+  isAddress,
+  parseAbiItem,
+  toFunctionSelector,
+  toFunctionSignature,
+} from 'viem';
+
+import type {
+  ActionBound,
+  ArgumentConstraint,
+  CreatePolicyOptions,
+  PolicyAllowOptions,
+} from './types';
+
+import { computeConstraintsHash } from './constraints';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// BUILDER CLASS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Builds a bounded execution policy one target at a time.
+ *
+ * Functions are given by name (looked up in the ABI) or as human-readable
+ * signatures. Unknown names, ambiguous overloads and signatures missing
+ * from a given ABI throw, as do targets that are not checksummed.
+ *
+ * @example
+ * ```ts
+ * const builder = new PolicyBuilder({
+ *   agent,
+ *   spendingLimit: parseEther('1'),
+ *   maxCalls: 100,
+ *   durationSeconds: 86400,
+ * })
+ *   .allow({ target: USDC, label: 'USDC', abi: erc20Abi, functions: ['transfer', 'approve'] })
+ *   .allow({ target: router, functions: ['function swap(uint256 amountIn, address to)'] });
+ *
+ * console.log(builder.summary());
+ * await bounded.registerPolicy(builder.build());
+ * ```
+ */
+export class PolicyBuilder {
+  private readonly options: Omit<CreatePolicyOptions, 'actions'>;
+  private readonly entries: Array<{
+    action: ActionBound;
+    signature: string;
+    label?: string;
+  }> = [];
+
+  constructor(options: Omit<CreatePolicyOptions, 'actions'>) {
+    this.options = { ...options, agent: getAddress(options.agent) };
+  }
+
+  /**
+   * Allow functions on a target. Repeated target, selector and
+   * constraints combinations are only added once.
+   */
+  allow(options: PolicyAllowOptions): this {
+    const target = assertChecksummed(options.target);
+    if (options.functions.length === 0) {
+      throw new Error(`No functions given for ${target}`);
+    }
+
+    for (const fn of options.functions) {
+      const item = resolveFunction(fn, options.abi, target);
+      const action: ActionBound = { target, selector: toFunctionSelector(item) };
+      if (options.constraints?.length) {
+        action.constraints = options.constraints;
+      }
+
+      if (!this.entries.some(e => sameLeaf(e.action, action))) {
+        this.entries.push({ action, signature: toFunctionSignature(item), label: options.label });
+      }
+    }
+
+    return this;
+  }
+
+  /**
+   * Allowed actions so far, in the order they were added.
+   */
+  get actions(): ActionBound[] {
+    return this.entries.map(e => ({ ...e.action }));
+  }
+
+  /**
+   * Options ready for BoundedClient.registerPolicy().
+   */
+  build(): CreatePolicyOptions {
+    if (this.entries.length === 0) {
+      throw new Error('At least one action required');
+    }
+    return { ...this.options, actions: this.actions };
+  }
+
+  /**
+   * Human-readable description of the policy, for review before registering.
+   */
+  summary(): string {
+    const lines = [
+      `Policy for agent ${this.options.agent}`,
+      `  spending limit: ${this.options.spendingLimit} wei`,
+      `  max calls: ${this.options.maxCalls}`,
+      `  duration: ${this.options.durationSeconds}s`,
+      `  allowed actions (${this.entries.length}):`,
+    ];
+
+    for (const { action, signature, label } of this.entries) {
+      const target = label ? `${label} (${action.target})` : action.target;
+      lines.push(`    ${target} ${signature} [${action.selector}]`);
+      for (const constraint of action.constraints ?? []) {
+        lines.push(`      ${describeConstraint(constraint)}`);
+      }
+    }
+
+    return lines.join('\n');
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// HELPERS
+// ═══════════════════════════════════════════════════════════════════════════
+
+function assertChecksummed(target: Address): Address {
+  if (!isAddress(target, { strict: false })) {
+    throw new Error(`Target ${target} is not an address`);
+  }
+  const checksummed = getAddress(target);
+  if (target !== checksummed) {
+    throw new Error(`Target ${target} is not checksummed (expected ${checksummed})`);
+  }
+  return checksummed;
+}
+
+/**
+ * Resolve a function name or signature to its ABI item. A signature
+ * given alongside an ABI must be in the ABI.
+ */
+function resolveFunction(fn: string, abi: Abi | undefined, target: Address): AbiFunction {
+  const functions = (abi ?? []).filter((item): item is AbiFunction => item.type === 'function');
+
+  if (fn.includes('(')) {
+    let item: AbiFunction;
+    try {
+      const parsed = parseAbiItem(fn.startsWith('function ') ? fn : `function ${fn}`);
+      if (parsed.type !== 'function') throw new Error('not a function');
+      item = parsed as AbiFunction;
+    } catch (error) {
+      throw new Error(`Cannot parse function signature "${fn}": ${(error as Error).message.split('\n')[0]}`);
+    }
+
+    if (abi) {
+      const selector = toFunctionSelector(item);
+      if (!functions.some(f => toFunctionSelector(f) === selector)) {
+        throw new Error(`${toFunctionSignature(item)} is not in the ABI for ${target}`);
+      }
+    }
+    return item;
+  }
+
+  if (!abi) {
+    throw new Error(`Function "${fn}" given by name for ${target}; pass an ABI or a full signature`);
+  }
+
+  const matches = functions.filter(f => f.name === fn);
+  if (matches.length === 0) {
+    const similar = functions
+        .filter(f => f.name.toLowerCase() === fn.toLowerCase() || editDistance(f.name, fn) <= 2)
+        .map(f => f.name);
+    throw new Error(`No function "${fn}" in the ABI for ${target}` +
+        (similar.length > 0 ? ` (did you mean ${[...new Set(similar)].join(', ')}?)` : ''));
+  }
+  if (matches.length > 1) {
+    throw new Error(`"${fn}" is overloaded in the ABI for ${target}; use one of: ` +
+        matches.map(f => toFunctionSignature(f)).join(', '));
+  }
+  return matches[0];
+}
+
+function sameLeaf(a: ActionBound, b: ActionBound): boolean {
+  return a.target === b.target &&
+      a.selector === b.selector &&
+      computeConstraintsHash(a.constraints ?? []) === computeConstraintsHash(b.constraints ?? []);
+}
+
+function describeConstraint(constraint: ArgumentConstraint): string {
+  switch (constraint.kind) {
+    case 'oneOf':
+      return `arg ${constraint.arg} one of ${constraint.values.join(', ')}`;
+    case 'max':
+      return `arg ${constraint.arg} at most ${constraint.value}`;
+    case 'equals':
+      return `arg ${constraint.arg} equals ${String(constraint.value)}`;
+  }
+}
+
+function editDistance(a: string, b: string): number {
+  const row = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = row[j];
+      row[j] = Math.min(row[j] + 1, row[j - 1] + 1, diagonal + (a[i - 1] === b[j - 1] ? 0 : 1));
+      diagonal = above;
+    }
+  }
+  return row[b.length];
+}
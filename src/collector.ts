@@ -0,0 +1,154 @@
+/**
+ * @erc8001/sdk - Acceptance Collector
+ *
+ * Gathers signed acceptances off-chain so a proposer or relayer can
+ * submit them in one go on behalf of participants without gas.
+ */
+
+import {
+  type Address,
+  type Hash,
+  type PublicClient,
+  getAddress,
+} from 'viem';
+
+import type {
+  AgentIntent,
+  AcceptanceAttestation,
+  ERC8001Domain,
+} from './types';
+
+import { computeIntentStructHash, verifyAcceptance } from './eip712';
+
+import { SignatureVerificationError } from './errors';
+
+import {
+  canonicalizeParticipants,
+  validateAttestation,
+} from './utils';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// COLLECTOR CLASS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Tracks which participants of an intent have signed an acceptance.
+ *
+ * @example
+ * ```ts
+ * const collector = new AcceptanceCollector(intent, { domain });
+ *
+ * // Each participant signs off-chain and sends their attestation
+ * await collector.addVerified(await participantClient.signAcceptance(collector.intentHash));
+ *
+ * console.log(collector.missing()); // participants still to sign
+ *
+ * if (collector.isComplete()) {
+ *   await relayer.relayAndExecute(collector.intentHash, payload, collector.getAttestations());
+ * }
+ * ```
+ */
+export class AcceptanceCollector {
+  readonly intentHash: Hash;
+  readonly participants: Address[];
+
+  private readonly attestations: Map<Address, AcceptanceAttestation> = new Map();
+  private readonly acceptedOnChain: Set<Address> = new Set();
+  private readonly domain?: ERC8001Domain;
+  private readonly publicClient?: PublicClient;
+
+  /**
+   * @param intent The intent, or its hash and participants
+   * @param options Domain (and optionally a public client for ERC-1271) used by addVerified()
+   */
+  constructor(
+      intent: AgentIntent | { intentHash: Hash; participants: Address[] },
+      options?: { domain?: ERC8001Domain; publicClient?: PublicClient }
+  ) {
+    this.domain = options?.domain;
+    this.publicClient = options?.publicClient;
+
+    if ('intentHash' in intent) {
+      this.intentHash = intent.intentHash;
+    } else {
+      this.intentHash = computeIntentStructHash(intent);
+    }
+    this.participants = canonicalizeParticipants(intent.participants);
+  }
+
+  /**
+   * Add a signed attestation.
+   * A newer attestation from the same participant replaces the previous one.
+   * Throws if it is for another intent, from a non-participant, expired or unsigned.
+   */
+  add(attestation: AcceptanceAttestation): void {
+    if (attestation.intentHash.toLowerCase() !== this.intentHash.toLowerCase()) {
+      throw new Error(`Attestation is for intent ${attestation.intentHash}, expected ${this.intentHash}`);
+    }
+
+    validateAttestation(attestation, this.participants);
+
+    this.attestations.set(getAddress(attestation.participant), attestation);
+  }
+
+  /**
+   * Verify the attestation's signature, then add it.
+   * Requires the collector to have been created with a domain.
+   */
+  async addVerified(attestation: AcceptanceAttestation): Promise<void> {
+    if (!this.domain) {
+      throw new Error('Collector needs a domain to verify signatures');
+    }
+
+    const valid = await verifyAcceptance(this.domain, attestation, {
+      publicClient: this.publicClient,
+    });
+    if (!valid) {
+      throw new SignatureVerificationError(attestation.participant, 'acceptance');
+    }
+
+    this.add(attestation);
+  }
+
+  /**
+   * Record participants whose acceptance is already on-chain
+   * (e.g. from getStatus().acceptedBy) so they are not reported as missing.
+   */
+  markAccepted(participants: Address[]): void {
+    for (const participant of participants) {
+      this.acceptedOnChain.add(getAddress(participant));
+    }
+  }
+
+  /**
+   * Whether a participant has either signed or already accepted on-chain.
+   */
+  has(participant: Address): boolean {
+    const address = getAddress(participant);
+    return this.attestations.has(address) || this.acceptedOnChain.has(address);
+  }
+
+  /**
+   * Participants with neither a collected attestation nor an on-chain acceptance.
+   */
+  missing(): Address[] {
+    return this.participants.filter(p => !this.has(p));
+  }
+
+  /**
+   * Whether every participant is accounted for.
+   */
+  isComplete(): boolean {
+    return this.missing().length === 0;
+  }
+
+  /**
+   * Collected attestations that still need submitting, in participant order.
+   */
+  getAttestations(): AcceptanceAttestation[] {
+    return this.participants
+        .filter(p => !this.acceptedOnChain.has(p))
+        .map(p => this.attestations.get(p))
+        .filter((a): a is AcceptanceAttestation => a !== undefined);
+  }
+}
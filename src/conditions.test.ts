@@ -0,0 +1,118 @@
+import { describe, expect, it } from 'vitest';
+import { type PublicClient, getAddress } from 'viem';
+
+import type { Condition } from './types';
+import { defaultRegistry } from './registry';
+import { canonicalizeLegs, swapPayload, transferLegs } from './schemas';
+import {
+  type ConditionContext,
+  checkConditions,
+  computeConditionsHash,
+  decodeConditions,
+  encodeConditions,
+} from './conditions';
+import { SerializationError } from './errors';
+
+const alice = getAddress('0x00000000000000000000000000000000000000a1');
+const bob = getAddress('0x00000000000000000000000000000000000000a2');
+const carol = getAddress('0x00000000000000000000000000000000000000a3');
+const usdc = getAddress('0x00000000000000000000000000000000000000c1');
+const weth = getAddress('0x00000000000000000000000000000000000000c2');
+const oracle = getAddress('0x00000000000000000000000000000000000000f1');
+
+// Alice pays 100 USDC for 1,000 wei of WETH, tolerating 1% slippage
+const payload = {
+  ...defaultRegistry.encodePayload(swapPayload({
+    legs: canonicalizeLegs([...transferLegs(alice, bob, usdc, 100n), ...transferLegs(bob, alice, weth, 1_000n)]),
+    slippageBps: 100,
+    deadline: 1n,
+  })),
+  timestamp: 1n,
+};
+
+/**
+ * Context at time 1,000 with an oracle answering `answer`, last updated at `updatedAt`.
+ */
+function context(oracleRound: { answer: bigint; updatedAt: bigint } | Error = { answer: 2_500n, updatedAt: 990n }): ConditionContext {
+  const publicClient = {
+    readContract: async () => {
+      if (oracleRound instanceof Error) throw oracleRound;
+      return [1n, oracleRound.answer, 0n, oracleRound.updatedAt, 1n];
+    },
+    getBlock: async () => ({ timestamp: 1_000n }),
+  } as unknown as PublicClient;
+
+  return { publicClient, participants: [alice, bob], acceptedBy: [bob], payload };
+}
+
+async function check(condition: Condition, ctx: ConditionContext = context()) {
+  return (await checkConditions([condition], ctx)).results[0];
+}
+
+describe('checkConditions', () => {
+  it('evaluates deadlines against the latest block', async () => {
+    expect((await check({ kind: 'deadline', timestamp: 1_000n })).satisfied).toBe(true);
+    expect(await check({ kind: 'deadline', timestamp: 999n })).toMatchObject({
+      satisfied: false,
+      reason: expect.stringMatching(/has passed/),
+    });
+  });
+
+  it('checks co-participants and their acceptance', async () => {
+    expect((await check({ kind: 'coParticipant', participant: bob, mustAccept: true })).satisfied).toBe(true);
+    expect((await check({ kind: 'coParticipant', participant: alice, mustAccept: false })).satisfied).toBe(true);
+    expect((await check({ kind: 'coParticipant', participant: alice, mustAccept: true })).reason).toMatch(/not accepted/);
+    expect((await check({ kind: 'coParticipant', participant: carol, mustAccept: false })).reason).toMatch(/not a participant/);
+  });
+
+  it('checks received amounts after slippage', async () => {
+    expect((await check({ kind: 'minReceived', token: weth, amount: 990n, recipient: alice })).satisfied).toBe(true);
+    expect((await check({ kind: 'minReceived', token: weth, amount: 991n, recipient: alice })).reason)
+        .toMatch(/receives 990/);
+    expect((await check({ kind: 'minReceived', token: usdc, amount: 1n, recipient: alice })).satisfied).toBe(false);
+    expect((await check(
+        { kind: 'minReceived', token: weth, amount: 1n, recipient: alice },
+        { ...context(), payload: undefined }
+    )).reason).toMatch(/no payload/);
+  });
+
+  it('checks oracle answers and their age', async () => {
+    const price: Condition = { kind: 'oraclePrice', oracle, min: 2_000n, max: 3_000n, maxAge: 60n };
+
+    expect((await check(price)).satisfied).toBe(true);
+    expect((await check(price, context({ answer: 3_001n, updatedAt: 990n }))).reason).toMatch(/outside/);
+    expect((await check(price, context({ answer: 2_500n, updatedAt: 900n }))).reason).toMatch(/100s old/);
+    expect((await check(price, context(new Error('no contract')))).reason).toMatch(/read failed/);
+  });
+
+  it('reports every result and is satisfied only if all are', async () => {
+    const report = await checkConditions([
+      { kind: 'deadline', timestamp: 2_000n },
+      { kind: 'coParticipant', participant: carol, mustAccept: false },
+    ], context());
+
+    expect(report.satisfied).toBe(false);
+    expect(report.results.map(r => r.satisfied)).toEqual([true, false]);
+  });
+});
+
+describe('conditions encoding', () => {
+  const conditions: Condition[] = [
+    { kind: 'deadline', timestamp: 1_000n },
+    { kind: 'coParticipant', participant: bob, mustAccept: true },
+    { kind: 'oraclePrice', oracle, min: 1n, max: 2n, maxAge: 0n },
+  ];
+
+  it('hashes the same set the same way in any order', () => {
+    expect(computeConditionsHash([...conditions].reverse())).toBe(computeConditionsHash(conditions));
+    expect(computeConditionsHash([...conditions, conditions[0]])).toBe(computeConditionsHash(conditions));
+    expect(computeConditionsHash([])).toBe(`0x${'00'.repeat(32)}`);
+  });
+
+  it('round-trips and rejects malformed input', () => {
+    expect(decodeConditions(encodeConditions(conditions))).toEqual(expect.arrayContaining(conditions));
+    expect(() => decodeConditions('0x1234')).toThrow(SerializationError);
+    expect(() => encodeConditions([{ kind: 'oraclePrice', oracle, min: 2n, max: 1n, maxAge: 0n }]))
+        .toThrow(/min must not exceed max/);
+  });
+});
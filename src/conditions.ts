@@ -0,0 +1,326 @@
+/**
+ * @erc8001/sdk - Conditions
+ *
+ * A small DSL for acceptance conditions: a canonical encoding whose
+ * hash goes into AcceptanceAttestation.conditionsHash, and a local
+ * evaluator so conditions can be checked before executing.
+ */
+
+import {
+  type Address,
+  type Hash,
+  type Hex,
+  type PublicClient,
+  keccak256,
+  encodeAbiParameters,
+  decodeAbiParameters,
+  getAddress,
+} from 'viem';
+
+import type {
+  Condition,
+  ConditionKind,
+  ConditionResult,
+  ConditionsReport,
+  CoordinationPayload,
+  PayloadLeg,
+} from './types';
+
+import { type CoordinationTypeRegistry, defaultRegistry } from './registry';
+
+import { SerializationError } from './errors';
+
+import { AGGREGATOR_V3_ABI } from './abis/AgentCoordination';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// ENCODING
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Conditions encoding version. Bump on any incompatible change.
+ */
+export const CONDITIONS_VERSION = 1;
+
+const ZERO_HASH = ('0x' + '0'.repeat(64)) as Hash;
+
+/**
+ * Kind tags and argument layouts. Append only.
+ */
+const CONDITION_LAYOUTS = {
+  minReceived: {
+    tag: 1,
+    params: [{ type: 'address' }, { type: 'uint256' }, { type: 'address' }],
+  },
+  deadline: {
+    tag: 2,
+    params: [{ type: 'uint64' }],
+  },
+  oraclePrice: {
+    tag: 3,
+    params: [{ type: 'address' }, { type: 'int256' }, { type: 'int256' }, { type: 'uint64' }],
+  },
+  coParticipant: {
+    tag: 4,
+    params: [{ type: 'address' }, { type: 'bool' }],
+  },
+} as const;
+
+const ENCODED_CONDITIONS = [
+  { type: 'uint8' },
+  {
+    type: 'tuple[]',
+    components: [
+      { name: 'kind', type: 'uint8' },
+      { name: 'data', type: 'bytes' },
+    ],
+  },
+] as const;
+
+/**
+ * Canonical encoding of a set of conditions:
+ * abi.encode(version, (kind, abi.encode(args))[]), sorted by kind then data,
+ * without duplicates. Order of the input does not matter.
+ */
+export function encodeConditions(conditions: Condition[]): Hex {
+  const entries = conditions
+      .map(encodeCondition)
+      .sort((a, b) => a.kind - b.kind || (a.data < b.data ? -1 : a.data > b.data ? 1 : 0))
+      .filter((entry, i, all) => i === 0 || entry.kind !== all[i - 1].kind || entry.data !== all[i - 1].data);
+
+  return encodeAbiParameters(ENCODED_CONDITIONS, [CONDITIONS_VERSION, entries]);
+}
+
+/**
+ * Decode conditions produced by encodeConditions().
+ * Throws SerializationError on malformed input.
+ */
+export function decodeConditions(encoded: Hex): Condition[] {
+  let version: number;
+  let entries: readonly { kind: number; data: Hex }[];
+  try {
+    [version, entries] = decodeAbiParameters(ENCODED_CONDITIONS, encoded);
+  } catch (error) {
+    throw new SerializationError('', `Malformed conditions: ${(error as Error).message}`);
+  }
+
+  if (version !== CONDITIONS_VERSION) {
+    throw new SerializationError('version', `Unsupported conditions version ${version}`);
+  }
+
+  return entries.map((entry, i) => decodeCondition(entry.kind, entry.data, `[${i}]`));
+}
+
+/**
+ * Hash of a set of conditions, for AcceptanceAttestation.conditionsHash.
+ * An empty set hashes to zero, meaning "no conditions".
+ */
+export function computeConditionsHash(conditions: Condition[]): Hash {
+  if (conditions.length === 0) return ZERO_HASH;
+  return keccak256(encodeConditions(conditions));
+}
+
+function encodeCondition(condition: Condition): { kind: number; data: Hex } {
+  switch (condition.kind) {
+    case 'minReceived':
+      return {
+        kind: CONDITION_LAYOUTS.minReceived.tag,
+        data: encodeAbiParameters(CONDITION_LAYOUTS.minReceived.params, [
+          condition.token, condition.amount, condition.recipient,
+        ]),
+      };
+    case 'deadline':
+      return {
+        kind: CONDITION_LAYOUTS.deadline.tag,
+        data: encodeAbiParameters(CONDITION_LAYOUTS.deadline.params, [condition.timestamp]),
+      };
+    case 'oraclePrice':
+      if (condition.min > condition.max) {
+        throw new Error('oraclePrice min must not exceed max');
+      }
+      return {
+        kind: CONDITION_LAYOUTS.oraclePrice.tag,
+        data: encodeAbiParameters(CONDITION_LAYOUTS.oraclePrice.params, [
+          condition.oracle, condition.min, condition.max, condition.maxAge,
+        ]),
+      };
+    case 'coParticipant':
+      return {
+        kind: CONDITION_LAYOUTS.coParticipant.tag,
+        data: encodeAbiParameters(CONDITION_LAYOUTS.coParticipant.params, [
+          condition.participant, condition.mustAccept,
+        ]),
+      };
+  }
+}
+
+function decodeCondition(tag: number, data: Hex, path: string): Condition {
+  const kind = (Object.keys(CONDITION_LAYOUTS) as ConditionKind[])
+      .find(k => CONDITION_LAYOUTS[k].tag === tag);
+  if (!kind) {
+    throw new SerializationError(path, `Unknown condition kind ${tag}`);
+  }
+
+  try {
+    switch (kind) {
+      case 'minReceived': {
+        const [token, amount, recipient] = decodeAbiParameters(CONDITION_LAYOUTS.minReceived.params, data);
+        return { kind, token, amount, recipient };
+      }
+      case 'deadline': {
+        const [timestamp] = decodeAbiParameters(CONDITION_LAYOUTS.deadline.params, data);
+        return { kind, timestamp };
+      }
+      case 'oraclePrice': {
+        const [oracle, min, max, maxAge] = decodeAbiParameters(CONDITION_LAYOUTS.oraclePrice.params, data);
+        return { kind, oracle, min, max, maxAge };
+      }
+      case 'coParticipant': {
+        const [participant, mustAccept] = decodeAbiParameters(CONDITION_LAYOUTS.coParticipant.params, data);
+        return { kind, participant, mustAccept };
+      }
+    }
+  } catch (error) {
+    throw new SerializationError(path, `Malformed ${kind} condition: ${(error as Error).message}`);
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// EVALUATION
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * What conditions are evaluated against.
+ */
+export interface ConditionContext {
+  /** Used for oracle reads and, if no timestamp is given, the latest block */
+  publicClient: PublicClient;
+  /** The coordination's participants */
+  participants: Address[];
+  /** Participants that have accepted so far */
+  acceptedBy?: Address[];
+  /** The payload, for minReceived (must be a type with legs, e.g. TRADE) */
+  payload?: CoordinationPayload;
+  /** Registry to decode the payload with (default: defaultRegistry) */
+  registry?: CoordinationTypeRegistry;
+  /** Time to evaluate deadlines and oracle age at (default: latest block timestamp) */
+  timestamp?: bigint;
+}
+
+/**
+ * Evaluate conditions locally. Never throws for an unmet condition;
+ * failures are reported with a reason.
+ */
+export async function checkConditions(
+    conditions: Condition[],
+    context: ConditionContext
+): Promise<ConditionsReport> {
+  const needsTime = conditions.some(c => c.kind === 'deadline' || c.kind === 'oraclePrice');
+  const timestamp = context.timestamp ?? (needsTime
+      ? (await context.publicClient.getBlock({ blockTag: 'latest' })).timestamp
+      : 0n);
+
+  const results = await Promise.all(
+      conditions.map(condition => evaluateCondition(condition, context, timestamp))
+  );
+
+  return { satisfied: results.every(r => r.satisfied), results };
+}
+
+async function evaluateCondition(
+    condition: Condition,
+    context: ConditionContext,
+    timestamp: bigint
+): Promise<ConditionResult> {
+  const fail = (reason: string): ConditionResult => ({ condition, satisfied: false, reason });
+  const pass: ConditionResult = { condition, satisfied: true };
+
+  switch (condition.kind) {
+    case 'deadline':
+      return timestamp <= condition.timestamp
+          ? pass
+          : fail(`deadline ${condition.timestamp} has passed (now ${timestamp})`);
+
+    case 'coParticipant': {
+      if (!includesAddress(context.participants, condition.participant)) {
+        return fail(`${condition.participant} is not a participant`);
+      }
+      if (condition.mustAccept && !includesAddress(context.acceptedBy ?? [], condition.participant)) {
+        return fail(`${condition.participant} has not accepted`);
+      }
+      return pass;
+    }
+
+    case 'minReceived': {
+      if (!context.payload) {
+        return fail('no payload to check received amounts against');
+      }
+
+      let received: bigint;
+      try {
+        received = worstCaseReceived(
+            context.payload,
+            context.registry ?? defaultRegistry,
+            condition.token,
+            condition.recipient
+        );
+      } catch (error) {
+        return fail((error as Error).message);
+      }
+
+      return received >= condition.amount
+          ? pass
+          : fail(`${condition.recipient} receives ${received} of ${condition.token}, needs ${condition.amount}`);
+    }
+
+    case 'oraclePrice': {
+      let answer: bigint;
+      let updatedAt: bigint;
+      try {
+        [, answer, , updatedAt] = await context.publicClient.readContract({
+          address: condition.oracle,
+          abi: AGGREGATOR_V3_ABI,
+          functionName: 'latestRoundData',
+        });
+      } catch (error) {
+        return fail(`oracle ${condition.oracle} read failed: ${(error as Error).message}`);
+      }
+
+      if (condition.maxAge > 0n && timestamp - updatedAt > condition.maxAge) {
+        return fail(`oracle answer is ${timestamp - updatedAt}s old, max ${condition.maxAge}s`);
+      }
+      if (answer < condition.min || answer > condition.max) {
+        return fail(`oracle answer ${answer} outside [${condition.min}, ${condition.max}]`);
+      }
+      return pass;
+    }
+  }
+}
+
+/**
+ * Amount of a token a recipient gets from the payload's legs,
+ * reduced by the payload's slippage tolerance if it has one.
+ */
+function worstCaseReceived(
+    payload: CoordinationPayload,
+    registry: CoordinationTypeRegistry,
+    token: Address,
+    recipient: Address
+): bigint {
+  const { name, data } = registry.decodePayload<{ legs?: PayloadLeg[]; slippageBps?: number }>(payload);
+  if (!Array.isArray(data.legs)) {
+    throw new Error(`${name} payloads have no legs`);
+  }
+
+  const total = data.legs
+      .filter(leg => leg.amount > 0n &&
+          getAddress(leg.token) === getAddress(token) &&
+          getAddress(leg.recipient) === getAddress(recipient))
+      .reduce((sum, leg) => sum + leg.amount, 0n);
+
+  const slippageBps = BigInt(data.slippageBps ?? 0);
+  return total * (10_000n - slippageBps) / 10_000n;
+}
+
+function includesAddress(addresses: Address[], address: Address): boolean {
+  return addresses.some(a => getAddress(a) === getAddress(address));
+}
@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import { encodeFunctionData, erc20Abi, getAddress, parseAbi } from 'viem';
+
+import type { ArgumentConstraint } from './types';
+import {
+  checkArguments,
+  computeConstraintsHash,
+  decodeConstraints,
+  encodeConstraints,
+} from './constraints';
+import { SerializationError } from './errors';
+
+const treasury = getAddress('0x00000000000000000000000000000000000000a1');
+const payroll = getAddress('0x00000000000000000000000000000000000000a2');
+const stranger = getAddress('0x00000000000000000000000000000000000000a3');
+
+const transferLimits: ArgumentConstraint[] = [
+  { kind: 'oneOf', arg: 0, values: [treasury, payroll] },
+  { kind: 'max', arg: 1, value: 1_000n },
+];
+
+function transfer(to: `0x${string}`, amount: bigint) {
+  return encodeFunctionData({ abi: erc20Abi, functionName: 'transfer', args: [to, amount] });
+}
+
+describe('constraints encoding', () => {
+  it('round-trips every kind', () => {
+    const constraints: ArgumentConstraint[] = [
+      ...transferLimits,
+      { kind: 'equals', arg: 2, value: true },
+      { kind: 'equals', arg: 3, value: -5n },
+      { kind: 'equals', arg: 4, value: 'memo' },
+    ];
+
+    const decoded = decodeConstraints(encodeConstraints(constraints));
+
+    expect(decoded).toHaveLength(constraints.length);
+    expect(decoded).toEqual(expect.arrayContaining(constraints));
+  });
+
+  it('hashes independently of order, duplicates and address case', () => {
+    const reordered: ArgumentConstraint[] = [
+      { kind: 'max', arg: 1, value: 1_000n },
+      { kind: 'oneOf', arg: 0, values: [payroll.toLowerCase() as `0x${string}`, treasury, treasury] },
+      { kind: 'max', arg: 1, value: 1_000n },
+    ];
+
+    expect(computeConstraintsHash(reordered)).toBe(computeConstraintsHash(transferLimits));
+  });
+
+  it('hashes no constraints to zero', () => {
+    expect(computeConstraintsHash([])).toBe(`0x${'00'.repeat(32)}`);
+  });
+
+  it('rejects a negative max and an out of range arg', () => {
+    expect(() => encodeConstraints([{ kind: 'max', arg: 0, value: -1n }])).toThrow(/negative/);
+    expect(() => encodeConstraints([{ kind: 'max', arg: 256, value: 1n }])).toThrow(/between 0 and 255/);
+  });
+
+  it('refuses malformed encodings', () => {
+    expect(() => decodeConstraints('0x1234')).toThrow(SerializationError);
+  });
+});
+
+describe('checkArguments', () => {
+  it('passes a call within its constraints', () => {
+    expect(checkArguments(transferLimits, erc20Abi, transfer(payroll, 1_000n))).toEqual({
+      satisfied: true,
+      failures: [],
+    });
+  });
+
+  it('reports each unmet constraint', () => {
+    const report = checkArguments(transferLimits, erc20Abi, transfer(stranger, 1_001n));
+
+    expect(report.satisfied).toBe(false);
+    expect(report.failures.map(f => f.constraint.kind)).toEqual(['oneOf', 'max']);
+  });
+
+  it('compares small integer arguments, which viem decodes as numbers', () => {
+    const abi = parseAbi(['function set(uint8 level, int16 offset)']);
+    const callData = encodeFunctionData({ abi, functionName: 'set', args: [7, -3] });
+
+    expect(checkArguments([
+      { kind: 'max', arg: 0, value: 7n },
+      { kind: 'equals', arg: 1, value: -3n },
+    ], abi, callData).satisfied).toBe(true);
+    expect(checkArguments([{ kind: 'max', arg: 0, value: 6n }], abi, callData).satisfied).toBe(false);
+  });
+
+  it('reports undecodable call data instead of throwing', () => {
+    const report = checkArguments(transferLimits, erc20Abi, '0xdeadbeef');
+
+    expect(report.satisfied).toBe(false);
+    expect(report.failures[0].reason).toMatch(/Cannot decode call data/);
+  });
+
+  it('reports a constraint on a missing argument', () => {
+    const report = checkArguments([{ kind: 'max', arg: 5, value: 1n }], erc20Abi, transfer(payroll, 1n));
+
+    expect(report.failures[0].reason).toBe('Call has no argument 5');
+  });
+});
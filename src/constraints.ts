@@ -0,0 +1,291 @@
+/**
+ * @erc8001/sdk - Argument Constraints
+ *
+ * Limits on the arguments of an allowed action: a canonical encoding
+ * whose hash can go into the action's Merkle leaf, and a local checker
+ * that decodes call data with the target's ABI.
+ */
+
+import {
+  type Abi,
+  type Hash,
+  type Hex,
+  keccak256,
+  encodeAbiParameters,
+  decodeAbiParameters,
+  decodeFunctionData,
+  getAddress,
+  isAddress,
+  isHex,
+} from 'viem';
+
+import type {
+  ArgumentConstraint,
+  ArgumentConstraintKind,
+  ArgumentsReport,
+  ConstraintValue,
+} from './types';
+
+import { SerializationError } from './errors';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// ENCODING
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Constraints encoding version. Bump on any incompatible change.
+ */
+export const CONSTRAINTS_VERSION = 1;
+
+const ZERO_HASH = ('0x' + '0'.repeat(64)) as Hash;
+
+/**
+ * Kind tags and argument layouts. Append only.
+ */
+const CONSTRAINT_LAYOUTS = {
+  oneOf: {
+    tag: 1,
+    params: [{ type: 'address[]' }],
+  },
+  max: {
+    tag: 2,
+    params: [{ type: 'uint256' }],
+  },
+  equals: {
+    tag: 3,
+    params: [{ type: 'string' }, { type: 'bytes' }],
+  },
+} as const;
+
+const ENCODED_CONSTRAINTS = [
+  { type: 'uint8' },
+  {
+    type: 'tuple[]',
+    components: [
+      { name: 'kind', type: 'uint8' },
+      { name: 'arg', type: 'uint8' },
+      { name: 'data', type: 'bytes' },
+    ],
+  },
+] as const;
+
+/**
+ * Canonical encoding of a set of constraints:
+ * abi.encode(version, (kind, arg, abi.encode(params))[]), sorted by kind,
+ * arg, then data, without duplicates. oneOf addresses are sorted too.
+ */
+export function encodeConstraints(constraints: ArgumentConstraint[]): Hex {
+  const entries = constraints
+      .map(encodeConstraint)
+      .sort((a, b) => a.kind - b.kind || a.arg - b.arg || (a.data < b.data ? -1 : a.data > b.data ? 1 : 0))
+      .filter((entry, i, all) => i === 0 ||
+          entry.kind !== all[i - 1].kind || entry.arg !== all[i - 1].arg || entry.data !== all[i - 1].data);
+
+  return encodeAbiParameters(ENCODED_CONSTRAINTS, [CONSTRAINTS_VERSION, entries]);
+}
+
+/**
+ * Decode constraints produced by encodeConstraints().
+ * Throws SerializationError on malformed input.
+ */
+export function decodeConstraints(encoded: Hex): ArgumentConstraint[] {
+  let version: number;
+  let entries: readonly { kind: number; arg: number; data: Hex }[];
+  try {
+    [version, entries] = decodeAbiParameters(ENCODED_CONSTRAINTS, encoded);
+  } catch (error) {
+    throw new SerializationError('', `Malformed constraints: ${(error as Error).message}`);
+  }
+
+  if (version !== CONSTRAINTS_VERSION) {
+    throw new SerializationError('version', `Unsupported constraints version ${version}`);
+  }
+
+  return entries.map((entry, i) => decodeConstraint(entry.kind, entry.arg, entry.data, `[${i}]`));
+}
+
+/**
+ * Hash of a set of constraints, as it goes into a constraintsInLeaf leaf.
+ * An empty set hashes to zero, meaning "no constraints".
+ */
+export function computeConstraintsHash(constraints: ArgumentConstraint[]): Hash {
+  if (constraints.length === 0) return ZERO_HASH;
+  return keccak256(encodeConstraints(constraints));
+}
+
+function encodeConstraint(constraint: ArgumentConstraint): { kind: number; arg: number; data: Hex } {
+  if (!Number.isInteger(constraint.arg) || constraint.arg < 0 || constraint.arg > 255) {
+    throw new Error(`Constraint arg must be an input index between 0 and 255, got ${constraint.arg}`);
+  }
+
+  switch (constraint.kind) {
+    case 'oneOf': {
+      if (constraint.values.length === 0) {
+        throw new Error('oneOf needs at least one value');
+      }
+      const values = [...new Set(constraint.values.map(v => getAddress(v)))]
+          .sort((a, b) => (BigInt(a) < BigInt(b) ? -1 : 1));
+      return {
+        kind: CONSTRAINT_LAYOUTS.oneOf.tag,
+        arg: constraint.arg,
+        data: encodeAbiParameters(CONSTRAINT_LAYOUTS.oneOf.params, [values]),
+      };
+    }
+    case 'max':
+      if (constraint.value < 0n) {
+        throw new Error(`max value must not be negative, got ${constraint.value}`);
+      }
+      return {
+        kind: CONSTRAINT_LAYOUTS.max.tag,
+        arg: constraint.arg,
+        data: encodeAbiParameters(CONSTRAINT_LAYOUTS.max.params, [constraint.value]),
+      };
+    case 'equals': {
+      const [type, value] = encodeEqualsValue(constraint.value);
+      return {
+        kind: CONSTRAINT_LAYOUTS.equals.tag,
+        arg: constraint.arg,
+        data: encodeAbiParameters(CONSTRAINT_LAYOUTS.equals.params, [type, value]),
+      };
+    }
+  }
+}
+
+function decodeConstraint(tag: number, arg: number, data: Hex, path: string): ArgumentConstraint {
+  const kind = (Object.keys(CONSTRAINT_LAYOUTS) as ArgumentConstraintKind[])
+      .find(k => CONSTRAINT_LAYOUTS[k].tag === tag);
+  if (!kind) {
+    throw new SerializationError(path, `Unknown constraint kind ${tag}`);
+  }
+
+  try {
+    switch (kind) {
+      case 'oneOf': {
+        const [values] = decodeAbiParameters(CONSTRAINT_LAYOUTS.oneOf.params, data);
+        return { kind, arg, values: [...values] };
+      }
+      case 'max': {
+        const [value] = decodeAbiParameters(CONSTRAINT_LAYOUTS.max.params, data);
+        return { kind, arg, value };
+      }
+      case 'equals': {
+        const [type, value] = decodeAbiParameters(CONSTRAINT_LAYOUTS.equals.params, data);
+        return { kind, arg, value: decodeEqualsValue(type, value) };
+      }
+    }
+  } catch (error) {
+    if (error instanceof SerializationError) throw error;
+    throw new SerializationError(path, `Malformed ${kind} constraint: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * equals values are stored as (type, abi.encode(value)) so they
+ * decode back to the same JavaScript type.
+ */
+function encodeEqualsValue(value: ConstraintValue): [string, Hex] {
+  if (typeof value === 'bigint') {
+    return value < 0n
+        ? ['int256', encodeAbiParameters([{ type: 'int256' }], [value])]
+        : ['uint256', encodeAbiParameters([{ type: 'uint256' }], [value])];
+  }
+  if (typeof value === 'boolean') {
+    return ['bool', encodeAbiParameters([{ type: 'bool' }], [value])];
+  }
+  if (isAddress(value, { strict: false })) {
+    return ['address', encodeAbiParameters([{ type: 'address' }], [getAddress(value)])];
+  }
+  if (isHex(value)) {
+    return ['bytes', encodeAbiParameters([{ type: 'bytes' }], [value.toLowerCase() as Hex])];
+  }
+  return ['string', encodeAbiParameters([{ type: 'string' }], [value])];
+}
+
+function decodeEqualsValue(type: string, value: Hex): ConstraintValue {
+  switch (type) {
+    case 'uint256':
+    case 'int256':
+    case 'bool':
+    case 'address':
+    case 'bytes':
+    case 'string':
+      return decodeAbiParameters([{ type }], value)[0] as ConstraintValue;
+    default:
+      throw new SerializationError('', `Unknown equals value type ${type}`);
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// CHECKING
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Check call data's arguments against constraints, decoding them with
+ * the target's ABI. Never throws for an unmet constraint or undecodable
+ * call data; failures are reported with a reason.
+ */
+export function checkArguments(
+    constraints: ArgumentConstraint[],
+    abi: Abi,
+    callData: Hex
+): ArgumentsReport {
+  if (constraints.length === 0) {
+    return { satisfied: true, failures: [] };
+  }
+
+  let args: readonly unknown[];
+  try {
+    args = decodeFunctionData({ abi, data: callData }).args ?? [];
+  } catch (error) {
+    const reason = `Cannot decode call data: ${(error as Error).message.split('\n')[0]}`;
+    return { satisfied: false, failures: constraints.map(constraint => ({ constraint, reason })) };
+  }
+
+  const failures: ArgumentsReport['failures'] = [];
+  for (const constraint of constraints) {
+    const reason = checkArgument(constraint, args);
+    if (reason) failures.push({ constraint, reason });
+  }
+
+  return { satisfied: failures.length === 0, failures };
+}
+
+function checkArgument(constraint: ArgumentConstraint, args: readonly unknown[]): string | undefined {
+  if (constraint.arg >= args.length) {
+    return `Call has no argument ${constraint.arg}`;
+  }
+  // viem decodes (u)int8 to (u)int48 as numbers
+  const arg = args[constraint.arg];
+  const actual = typeof arg === 'number' && Number.isInteger(arg) ? BigInt(arg) : arg;
+
+  switch (constraint.kind) {
+    case 'oneOf': {
+      if (typeof actual !== 'string' || !isAddress(actual, { strict: false })) {
+        return `Argument ${constraint.arg} is not an address`;
+      }
+      return constraint.values.some(v => getAddress(v) === getAddress(actual))
+          ? undefined
+          : `Argument ${constraint.arg} (${actual}) is not an allowed address`;
+    }
+
+    case 'max':
+      if (typeof actual !== 'bigint') {
+        return `Argument ${constraint.arg} is not an integer`;
+      }
+      return actual <= constraint.value
+          ? undefined
+          : `Argument ${constraint.arg} (${actual}) exceeds max ${constraint.value}`;
+
+    case 'equals':
+      return equalsValue(actual, constraint.value)
+          ? undefined
+          : `Argument ${constraint.arg} (${String(actual)}) does not equal ${String(constraint.value)}`;
+  }
+}
+
+function equalsValue(actual: unknown, expected: ConstraintValue): boolean {
+  if (typeof expected === 'string' && typeof actual === 'string' && isHex(expected) && isHex(actual)) {
+    return expected.toLowerCase() === actual.toLowerCase();
+  }
+  return actual === expected;
+}
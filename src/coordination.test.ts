@@ -0,0 +1,436 @@
+import { describe, expect, it, vi } from 'vitest';
+import {
+  type AbiEvent,
+  type Address,
+  type Hash,
+  type Hex,
+  type PublicClient,
+  type WalletClient,
+  createPublicClient,
+  ContractFunctionExecutionError,
+  ContractFunctionRevertedError,
+  createWalletClient,
+  custom,
+  encodeAbiParameters,
+  encodeErrorResult,
+  encodeEventTopics,
+  getAbiItem,
+  getAddress,
+  numberToHex,
+} from 'viem';
+import { mainnet } from 'viem/chains';
+import { type PrivateKeyAccount, privateKeyToAccount } from 'viem/accounts';
+
+import type {
+  AcceptanceAttestation,
+  AgentIntent,
+  CoordinationAcceptedEvent,
+  CoordinationEventName,
+  CoordinationPayload,
+  CoordinationStatus,
+  EventLog,
+} from './types';
+import { Status } from './types';
+import { CoordinationClient } from './coordination';
+import { computeIntentStructHash, computePayloadHash, createDomain, signAcceptance } from './eip712';
+import { createAttestation } from './utils';
+import { MemoryStorage } from './storage';
+import { CoordinationRevertError, PayloadMismatchError, ProposalNotFoundError } from './errors';
+import { AGENT_COORDINATION_ABI } from './abis/AgentCoordination';
+
+const contractAddress = '0x00000000000000000000000000000000000000c1' as Address;
+const alice = getAddress('0x00000000000000000000000000000000000000a2');
+const bob = getAddress('0x00000000000000000000000000000000000000a3');
+const intentHash = `0x${'ab'.repeat(32)}` as Hash;
+const otherIntent = `0x${'cd'.repeat(32)}` as Hash;
+
+interface RpcLog {
+  address: Address;
+  topics: Hex[];
+  data: Hex;
+  blockNumber: Hex | null;
+  blockHash: Hash | null;
+  transactionHash: Hash | null;
+  transactionIndex: Hex | null;
+  logIndex: Hex | null;
+  removed: boolean;
+}
+
+/**
+ * Encode an event the way a node returns it from eth_getLogs.
+ */
+function rpcLog(
+    eventName: CoordinationEventName,
+    args: Record<string, unknown>,
+    meta: { blockNumber: bigint | null; logIndex?: number; removed?: boolean }
+): RpcLog {
+  const event = getAbiItem({ abi: AGENT_COORDINATION_ABI, name: eventName }) as AbiEvent;
+  const data = event.inputs.filter(input => !input.indexed);
+  const pending = meta.blockNumber === null;
+
+  return {
+    address: contractAddress,
+    topics: encodeEventTopics({ abi: AGENT_COORDINATION_ABI, eventName, args } as never) as Hex[],
+    data: encodeAbiParameters(data, data.map(input => args[input.name!])),
+    blockNumber: pending ? null : numberToHex(meta.blockNumber!),
+    blockHash: pending ? null : `0x${'11'.repeat(32)}`,
+    transactionHash: pending ? null : `0x${'22'.repeat(32)}`,
+    transactionIndex: pending ? null : '0x0',
+    logIndex: pending ? null : numberToHex(meta.logIndex ?? 0),
+    removed: meta.removed ?? false,
+  };
+}
+
+function accepted(participant: Address, blockNumber: bigint | null, extra?: { logIndex?: number; removed?: boolean; intent?: Hash }) {
+  return rpcLog('CoordinationAccepted', {
+    intentHash: extra?.intent ?? intentHash,
+    participant,
+    acceptanceHash: `0x${'33'.repeat(32)}`,
+    acceptedCount: 1n,
+    requiredCount: 2n,
+  }, { blockNumber, ...extra });
+}
+
+/**
+ * Whether a log matches an eth_getLogs / eth_newFilter topic filter.
+ */
+function matches(log: RpcLog, topics: Array<Hex | Hex[] | null> = []): boolean {
+  return topics.every((topic, i) =>
+    topic === null || (Array.isArray(topic) ? topic : [topic]).some(t => t.toLowerCase() === log.topics[i]?.toLowerCase())
+  );
+}
+
+/**
+ * A CoordinationClient over a node stand-in serving the given logs.
+ */
+function setup(logs: RpcLog[]) {
+  const node = {
+    logs,
+    filters: [] as Array<Array<Hex | Hex[] | null>>,
+    /** Logs handed out by the next eth_getFilterChanges */
+    changes: [] as RpcLog[],
+  };
+
+  const publicClient = createPublicClient({
+    chain: mainnet,
+    transport: custom({
+      async request({ method, params }: { method: string; params: [{ topics?: Array<Hex | Hex[] | null> }] }) {
+        switch (method) {
+          case 'eth_blockNumber':
+            return '0x64';
+          case 'eth_getLogs':
+            node.filters.push(params[0].topics ?? []);
+            return node.logs.filter(log => matches(log, params[0].topics));
+          case 'eth_newFilter':
+            node.filters.push(params[0].topics ?? []);
+            return '0x1';
+          case 'eth_getFilterChanges': {
+            const changes = node.changes;
+            node.changes = [];
+            return changes;
+          }
+          case 'eth_uninstallFilter':
+            return true;
+        }
+        throw new Error(`unexpected ${method}`);
+      },
+    }),
+  });
+
+  const client = new CoordinationClient({ contractAddress, publicClient });
+  return { node, client };
+}
+
+describe('CoordinationClient events', () => {
+  it('decodes logs into typed events ordered by block and log index', async () => {
+    const { client } = setup([
+      accepted(bob, 12n, { logIndex: 0 }),
+      rpcLog('CoordinationProposed', {
+        intentHash,
+        proposer: alice,
+        coordinationType: `0x${'44'.repeat(32)}`,
+        participantCount: 2n,
+        coordinationValue: 5n,
+      }, { blockNumber: 10n, logIndex: 3 }),
+      accepted(alice, 10n, { logIndex: 4 }),
+    ]);
+
+    const events = await client.getEvents({ fromBlock: 0n });
+
+    expect(events.map(e => [e.eventName, e.blockNumber, e.logIndex])).toEqual([
+      ['CoordinationProposed', 10n, 3],
+      ['CoordinationAccepted', 10n, 4],
+      ['CoordinationAccepted', 12n, 0],
+    ]);
+    expect(events[0]).toMatchObject({
+      intentHash,
+      proposer: alice,
+      participantCount: 2n,
+      coordinationValue: 5n,
+      removed: false,
+    });
+  });
+
+  it('filters by intent and by the event\'s indexed address', async () => {
+    const { node, client } = setup([
+      accepted(alice, 10n),
+      accepted(bob, 11n),
+      accepted(alice, 12n, { intent: otherIntent }),
+    ]);
+
+    const events = await client.getEvents({
+      fromBlock: 0n,
+      intentHash,
+      participant: alice,
+      eventNames: ['CoordinationAccepted'],
+    });
+
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({ eventName: 'CoordinationAccepted', intentHash, participant: alice });
+    expect(node.filters[0][1]).toBe(intentHash);
+    expect(node.filters[0][2]?.toString().toLowerCase()).toBe(`0x${alice.slice(2).toLowerCase().padStart(64, '0')}`);
+  });
+
+  it('skips pending logs and flags removed ones', async () => {
+    const { client } = setup([
+      accepted(alice, null),
+      accepted(bob, 11n, { removed: true }),
+    ]);
+
+    const events = await client.getEvents({ fromBlock: 0n, eventNames: ['CoordinationAccepted'] });
+
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({ participant: bob, removed: true });
+  });
+
+  it('delivers watched events, skipping pending ones and flagging removals', async () => {
+    const { node, client } = setup([]);
+    const seen: Array<EventLog<CoordinationAcceptedEvent>> = [];
+
+    const stop = client.watchAccepted({ intentHash, pollingInterval: 10, onEvent: e => seen.push(e) });
+    await vi.waitFor(() => expect(node.filters).toHaveLength(1));
+    node.changes = [accepted(alice, 10n), accepted(bob, null), accepted(alice, 10n, { removed: true })];
+    await vi.waitFor(() => expect(seen).toHaveLength(2));
+    stop();
+
+    expect(node.filters[0][1]).toBe(intentHash);
+    expect(seen.map(e => [e.participant, e.removed])).toEqual([[alice, false], [alice, true]]);
+  });
+});
+
+const payload: CoordinationPayload = {
+  version: `0x${'01'.padStart(64, '0')}`,
+  coordinationType: `0x${'44'.repeat(32)}`,
+  coordinationData: '0x',
+  conditionsHash: `0x${'00'.repeat(32)}`,
+  timestamp: 1n,
+  metadata: '0x',
+};
+
+const relayer = privateKeyToAccount(`0x${'01'.repeat(32)}`);
+const carol = privateKeyToAccount(`0x${'02'.repeat(32)}`);
+const dave = privateKeyToAccount(`0x${'03'.repeat(32)}`);
+
+/**
+ * A CoordinationClient over stubbed public and wallet clients.
+ * `chain.status` is what the contract reports; writes are recorded.
+ */
+function stubbed(storage?: MemoryStorage) {
+  const chain = {
+    status: {
+      status: Status.Proposed,
+      proposer: relayer.address,
+      participants: [carol.address, dave.address],
+      acceptedBy: [] as Address[],
+      expiry: 2_000_000_000n,
+    } as CoordinationStatus,
+    simulated: [] as string[],
+    /** What simulateContract returns, or throws when an Error */
+    simulation: undefined as unknown,
+    writes: [] as Array<{ functionName: string; args: readonly unknown[] }>,
+  };
+
+  const publicClient = {
+    chain: mainnet,
+    getBlockNumber: async () => 100n,
+    getContractEvents: async () => [],
+    readContract: async () => {
+      const { status, proposer, participants, acceptedBy, expiry } = chain.status;
+      return [status, proposer, participants, acceptedBy, expiry];
+    },
+    simulateContract: async (request: { functionName: string }) => {
+      chain.simulated.push(request.functionName);
+      if (chain.simulation instanceof Error) throw chain.simulation;
+      return { request, result: chain.simulation };
+    },
+  } as unknown as PublicClient;
+
+  const walletClient = {
+    account: relayer,
+    writeContract: async (request: { functionName: string; args: readonly unknown[] }) => {
+      chain.writes.push(request);
+      return `0x${chain.writes.length.toString(16).padStart(64, '0')}`;
+    },
+  } as unknown as WalletClient;
+
+  const client = new CoordinationClient({ contractAddress, publicClient, walletClient, storage });
+  return { chain, client };
+}
+
+async function attest(account: PrivateKeyAccount, nonce: bigint): Promise<AcceptanceAttestation> {
+  const wallet = createWalletClient({
+    account,
+    transport: custom({ request: async () => { throw new Error('no RPC expected'); } }),
+  });
+  return signAcceptance(
+      wallet,
+      createDomain(1n, contractAddress),
+      createAttestation({ intentHash, participant: account.address }, nonce)
+  );
+}
+
+describe('CoordinationClient.submitAcceptances', () => {
+  it('sends one acceptance per participant, the last one given', async () => {
+    const { chain, client } = stubbed();
+    const older = await attest(carol, 1n);
+    const newer = await attest(carol, 2n);
+    const other = await attest(dave, 1n);
+
+    const { submitted, txHashes } = await client.submitAcceptances(intentHash, [older, other, newer]);
+
+    expect(submitted).toEqual([carol.address, dave.address]);
+    expect(txHashes).toHaveLength(2);
+    expect(chain.writes.map(w => w.args[1])).toEqual([newer, other]);
+    const stored = await client.getStoredAttestations(intentHash);
+    expect(stored).toHaveLength(2);
+    expect(stored).toEqual(expect.arrayContaining([newer, other]));
+  });
+
+  it('batches deduplicated acceptances into one multicall', async () => {
+    const { chain, client } = stubbed();
+    const attestations = [await attest(carol, 1n), await attest(carol, 2n)];
+
+    const { submitted, txHashes } = await client.submitAcceptances(intentHash, attestations, { mode: 'multicall' });
+
+    expect(submitted).toEqual([carol.address]);
+    expect(txHashes).toHaveLength(1);
+    expect(chain.writes[0].functionName).toBe('aggregate3');
+    expect(chain.writes[0].args[0]).toHaveLength(1);
+  });
+});
+
+describe('CoordinationClient writes', () => {
+  function revert(errorName: 'ERC8001_NotProposer') {
+    const data = encodeErrorResult({ abi: AGENT_COORDINATION_ABI, errorName });
+    return new ContractFunctionExecutionError(
+        new ContractFunctionRevertedError({ abi: AGENT_COORDINATION_ABI, data, functionName: 'cancelCoordination' }),
+        { abi: AGENT_COORDINATION_ABI, functionName: 'cancelCoordination', args: [] }
+    );
+  }
+
+  it('simulates before sending', async () => {
+    const { chain, client } = stubbed();
+
+    await client.cancel(intentHash, 'done');
+
+    expect(chain.simulated).toEqual(['cancelCoordination']);
+    expect(chain.writes.map(w => [w.functionName, w.args])).toEqual([['cancelCoordination', [intentHash, 'done']]]);
+  });
+
+  it('sends nothing when the simulation reverts, and decodes the revert', async () => {
+    const { chain, client } = stubbed();
+    chain.simulation = revert('ERC8001_NotProposer');
+
+    const error = await client.cancel(intentHash).catch(e => e);
+
+    expect(error).toBeInstanceOf(CoordinationRevertError);
+    expect(error.code).toBe('NOT_PROPOSER');
+    expect(chain.writes).toEqual([]);
+  });
+
+  it('skips the simulation when asked to', async () => {
+    const { chain, client } = stubbed();
+    chain.simulation = revert('ERC8001_NotProposer');
+
+    await client.cancel(intentHash, '', { simulate: false });
+
+    expect(chain.simulated).toEqual([]);
+    expect(chain.writes).toHaveLength(1);
+  });
+
+  it('returns the simulated result', async () => {
+    const { chain, client } = stubbed();
+    chain.status = { ...chain.status, status: Status.Ready, acceptedBy: [carol.address, dave.address] };
+    chain.simulation = [true, '0xbeef'];
+
+    const result = await client.execute(intentHash, payload, '0x', { allowUnverifiedPayload: true });
+
+    expect(result).toMatchObject({ success: true, result: '0xbeef' });
+  });
+});
+
+describe('CoordinationClient.execute', () => {
+  const intent: AgentIntent = {
+    payloadHash: computePayloadHash(payload),
+    expiry: 2_000_000_000n,
+    nonce: 1n,
+    agentId: relayer.address,
+    coordinationType: payload.coordinationType,
+    coordinationValue: 0n,
+    participants: [carol.address, dave.address],
+  };
+
+  async function ready(stored?: AgentIntent) {
+    const storage = new MemoryStorage();
+    if (stored) await storage.putIntent({ intent: stored, payload });
+    const { chain, client } = stubbed(storage);
+    chain.status = { ...chain.status, status: Status.Ready, acceptedBy: [carol.address, dave.address] };
+    return { chain, client, hash: stored ? computeIntentStructHash(stored) : intentHash };
+  }
+
+  it('sends a payload matching the stored intent', async () => {
+    const { chain, client, hash } = await ready(intent);
+
+    await client.execute(hash, payload);
+
+    expect(chain.writes.map(w => w.functionName)).toEqual(['executeCoordination']);
+  });
+
+  it('sends the stored payload when none is given', async () => {
+    const { chain, client, hash } = await ready(intent);
+
+    await client.execute(hash);
+
+    expect(chain.writes[0].args[1]).toEqual(payload);
+  });
+
+  it('rejects a payload that differs from the intent', async () => {
+    const { chain, client, hash } = await ready(intent);
+
+    await expect(client.execute(hash, { ...payload, metadata: '0x01' })).rejects.toThrow(PayloadMismatchError);
+    expect(chain.writes).toEqual([]);
+  });
+
+  it('rejects a payload whose coordinationType differs from the intent', async () => {
+    const { chain, client, hash } = await ready({ ...intent, coordinationType: `0x${'55'.repeat(32)}` });
+
+    await expect(client.execute(hash, payload)).rejects.toThrow(/coordinationType/);
+    expect(chain.writes).toEqual([]);
+  });
+
+  it('rejects an unverifiable payload unless allowUnverifiedPayload is set', async () => {
+    const { chain, client, hash } = await ready();
+
+    await expect(client.execute(hash, payload)).rejects.toThrow(ProposalNotFoundError);
+    expect(chain.writes).toEqual([]);
+
+    await client.execute(hash, payload, '0x', { allowUnverifiedPayload: true });
+    expect(chain.writes).toHaveLength(1);
+  });
+
+  it('throws when there is no payload to execute', async () => {
+    const { client, hash } = await ready();
+
+    await expect(client.execute(hash)).rejects.toThrow(/No payload/);
+  });
+});
@@ -12,6 +12,19 @@ import {
   type WalletClient,
   type Chain,
   type Account,
+  type ContractFunctionArgs,
+  type ContractFunctionName,
+  type ContractFunctionReturnType,
+  type SimulateContractParameters,
+  type WriteContractParameters,
+  type WatchContractEventParameters,
+  type DecodeFunctionDataReturnType,
+  encodeFunctionData,
+  decodeFunctionData,
+  getAddress,
+  parseEventLogs,
+  TransactionNotFoundError,
+  TransactionReceiptNotFoundError,
 } from 'viem';
 
 import type {
@@ -19,16 +32,53 @@ import type {
   AcceptanceAttestation,
   CoordinationPayload,
   CoordinationStatus,
-  Status,
   CreateIntentOptions,
   CreateAttestationOptions,
+  CoordinationEvent,
+  CoordinationEventName,
+  CoordinationProposedEvent,
+  CoordinationAcceptedEvent,
+  CoordinationExecutedEvent,
+  CoordinationCancelledEvent,
+  TransactionState,
+  GetEventsOptions,
+  LogSearchOptions,
+  WatchEventsOptions,
+  WaitForReadyOptions,
+  WriteOptions,
+  SubmitAcceptancesOptions,
+  ExecuteOptions,
+  ExecutableCheck,
+  AcceptanceExpiry,
+  DecodedPayload,
+  Condition,
+  AcceptanceConditionsReport,
+  StoredIntent,
+  Proposal,
+  AcceptOptions,
 } from './types';
 
+import { Status } from './types';
+
+import {
+  TimeoutError,
+  CoordinationEndedError,
+  SignatureVerificationError,
+  StaleAcceptanceError,
+  ConditionsNotMetError,
+  PayloadMismatchError,
+  ProposalNotFoundError,
+  ProposalRejectedError,
+  decodeContractError,
+} from './errors';
+
 import {
   createDomain,
   signIntent,
   signAcceptance,
   computeIntentStructHash,
+  computePayloadHash,
+  verifyAcceptance,
 } from './eip712';
 
 import {
@@ -36,9 +86,30 @@ import {
   createAttestation,
   validateIntent,
   validateAttestation,
+  isParticipant,
 } from './utils';
 
-import { AGENT_COORDINATION_ABI } from './abis/AgentCoordination';
+import { AcceptanceCollector } from './collector';
+
+import { type Storage, MemoryStorage } from './storage';
+
+import { type CoordinationTypeRegistry, defaultRegistry } from './registry';
+
+import {
+  type ConditionContext,
+  checkConditions,
+  computeConditionsHash,
+} from './conditions';
+
+import {
+  type AcceptanceNonceStrategy,
+  NonceManager,
+  ZeroNonceStrategy,
+} from './nonces';
+
+import { AGENT_COORDINATION_ABI, MULTICALL3_ABI } from './abis/AgentCoordination';
+
+type CoordinationWriteFunction = ContractFunctionName<typeof AGENT_COORDINATION_ABI, 'nonpayable' | 'payable'>;
 
 // ═══════════════════════════════════════════════════════════════════════════
 // CLIENT CLASS
@@ -83,6 +154,10 @@ export class CoordinationClient {
   private readonly walletClient?: WalletClient;
   private readonly chainId: bigint;
   private readonly chain: Chain;
+  private readonly acceptanceNonces: AcceptanceNonceStrategy;
+  private readonly nonceManager: NonceManager;
+  private readonly storage: Storage;
+  private readonly registry: CoordinationTypeRegistry;
 
   constructor(options: {
     contractAddress: Address;
@@ -90,10 +165,24 @@ export class CoordinationClient {
     walletClient?: WalletClient;
     chainId?: bigint;
     chain?: Chain;
+    /** How acceptance nonces are chosen (default: always 0) */
+    acceptanceNonces?: AcceptanceNonceStrategy;
+    /** Intent nonce allocator (default: in-memory, seeded from getAgentNonce) */
+    nonceManager?: NonceManager;
+    /** Where intents, payloads and attestations are kept (default: in memory) */
+    storage?: Storage;
+    /** Coordination types for typed payloads (default: defaultRegistry) */
+    registry?: CoordinationTypeRegistry;
   }) {
     this.contractAddress = options.contractAddress;
     this.publicClient = options.publicClient;
     this.walletClient = options.walletClient;
+    this.acceptanceNonces = options.acceptanceNonces ?? new ZeroNonceStrategy();
+    this.nonceManager = options.nonceManager ?? new NonceManager({
+      fetchNonce: (agentId) => this.getAgentNonce(agentId),
+    });
+    this.storage = options.storage ?? new MemoryStorage();
+    this.registry = options.registry ?? defaultRegistry;
 
     const chain = options.chain ?? options.publicClient.chain;
     if (!chain) {
@@ -119,6 +208,13 @@ export class CoordinationClient {
     }) as Promise<bigint>;
   }
 
+  /**
+   * Get the current block number.
+   */
+  async getBlockNumber(): Promise<bigint> {
+    return this.publicClient.getBlockNumber();
+  }
+
   /**
    * Get the coordination status.
    */
@@ -163,6 +259,312 @@ export class CoordinationClient {
     }) as Promise<boolean>;
   }
 
+  /**
+   * Attestations for an intent kept in this client's storage.
+   */
+  async getStoredAttestations(intentHash: Hash): Promise<AcceptanceAttestation[]> {
+    return this.storage.getAttestations(intentHash);
+  }
+
+  /**
+   * Check whether a coordination can be executed now, including whether
+   * any acceptance recorded on-chain has expired since it was submitted.
+   *
+   * Expiries are decoded from the acceptCoordination calls that emitted
+   * CoordinationAccepted, since that is what the contract checks. Stored
+   * attestations are not used: they may have been signed but never submitted.
+   * Logs are searched from `fromBlock`, else the block stored with the
+   * intent, else the last 1,000 blocks.
+   */
+  async checkExecutable(intentHash: Hash, options?: LogSearchOptions): Promise<ExecutableCheck> {
+    const status = await this.getStatus(intentHash);
+
+    const acceptances: AcceptanceExpiry[] = [];
+    const recovered = status.acceptedBy.length > 0
+        ? await this.findAcceptances(intentHash, status.acceptedBy, options?.fromBlock)
+        : [];
+    const stored = await this.storage.getAttestations(intentHash);
+    for (const attestation of recovered) {
+      if (!isParticipant(attestation.participant, stored.map(a => a.participant))) {
+        await this.storage.putAttestation(attestation);
+      }
+      acceptances.push({ participant: attestation.participant, expiry: attestation.expiry });
+    }
+    const unknown = status.acceptedBy.filter(p => !isParticipant(p, recovered.map(a => a.participant)));
+
+    const now = BigInt(Math.floor(Date.now() / 1000));
+    const stale = acceptances.filter(a => a.expiry <= now);
+
+    return {
+      executable: status.status === Status.Ready && status.expiry > now && stale.length === 0,
+      status,
+      acceptances,
+      stale,
+      unknown,
+      missing: status.participants.filter(p => !isParticipant(p, status.acceptedBy)),
+    };
+  }
+
+  /**
+   * Recover the attestations of the given participants from the
+   * acceptCoordination calls that emitted their CoordinationAccepted events.
+   */
+  private async findAcceptances(
+      intentHash: Hash,
+      participants: Address[],
+      fromBlock?: LogSearchOptions['fromBlock']
+  ): Promise<AcceptanceAttestation[]> {
+    const events = await this.getEvents({
+      intentHash,
+      eventNames: ['CoordinationAccepted'],
+      ...await this.logRange(fromBlock, intentHash),
+    });
+
+    // Latest acceptance per participant
+    const txByParticipant = new Map<Address, Hash>();
+    for (const event of events) {
+      if (event.eventName !== 'CoordinationAccepted' || event.removed) continue;
+      if (!isParticipant(event.participant, participants)) continue;
+      txByParticipant.set(getAddress(event.participant), event.transactionHash);
+    }
+
+    // A relayed batch records several acceptances in one transaction
+    const txs = new Map<Hash, Awaited<ReturnType<PublicClient['getTransaction']>>>();
+    const found: AcceptanceAttestation[] = [];
+    for (const [participant, hash] of txByParticipant) {
+      let tx = txs.get(hash);
+      if (!tx) {
+        tx = await this.publicClient.getTransaction({ hash });
+        txs.set(hash, tx);
+      }
+      for (const call of decodeCoordinationCalls(tx, this.contractAddress)) {
+        if (call.functionName !== 'acceptCoordination') continue;
+        const [callIntentHash, attestation] = call.args;
+        if (callIntentHash.toLowerCase() === intentHash.toLowerCase() &&
+            getAddress(attestation.participant) === participant) {
+          found.push({ ...attestation });
+          break;
+        }
+      }
+    }
+
+    return found;
+  }
+
+  /**
+   * Where a transaction stands: mined (successfully or reverted), still
+   * pending, or unknown to the node (dropped or replaced).
+   */
+  async getTransactionState(txHash: Hash): Promise<TransactionState> {
+    try {
+      const receipt = await this.publicClient.getTransactionReceipt({ hash: txHash });
+      return receipt.status === 'success' ? 'success' : 'reverted';
+    } catch (error) {
+      if (!(error instanceof TransactionReceiptNotFoundError)) throw error;
+    }
+
+    try {
+      await this.publicClient.getTransaction({ hash: txHash });
+      return 'pending';
+    } catch (error) {
+      if (error instanceof TransactionNotFoundError) return 'dropped';
+      throw error;
+    }
+  }
+
+  /**
+   * The full intent behind an intent hash: from storage, or else
+   * reconstructed from the proposeCoordination calldata of its proposal
+   * transaction (and then stored).
+   *
+   * @param intentHash The intent
+   * @param options Where to search for the proposal if it isn't stored
+   * @returns The intent, or undefined if it can't be recovered
+   */
+  async getIntent(intentHash: Hash, options?: LogSearchOptions): Promise<AgentIntent | undefined> {
+    return (await this.loadIntent(intentHash, options?.fromBlock))?.intent;
+  }
+
+  private async loadIntent(
+      intentHash: Hash,
+      fromBlock?: LogSearchOptions['fromBlock']
+  ): Promise<StoredIntent | undefined> {
+    const stored = await this.storage.getIntent(intentHash);
+    if (stored) return stored;
+
+    try {
+      const { intent, payload, signature, blockNumber } = await this.fetchProposal(intentHash, { fromBlock });
+      return { intent, payload, signature, blockNumber };
+    } catch (error) {
+      if (error instanceof ProposalNotFoundError) return undefined;
+      throw error;
+    }
+  }
+
+  /**
+   * Reconstruct a proposal from chain: find its CoordinationProposed log,
+   * load the transaction and decode the proposeCoordination arguments.
+   * The intent must hash to intentHash and the payload to intent.payloadHash.
+   * The result is kept in storage.
+   *
+   * The log is searched from `fromBlock`, else the block stored with the
+   * intent, else the last 1,000 blocks; a proposal outside that range
+   * throws ProposalNotFoundError.
+   *
+   * Proposals sent through contracts other than Multicall3 (e.g. smart
+   * accounts) can't be decoded and throw ProposalNotFoundError.
+   */
+  async fetchProposal(intentHash: Hash, options?: LogSearchOptions): Promise<Proposal> {
+    const events = await this.getEvents({
+      intentHash,
+      eventNames: ['CoordinationProposed'],
+      ...await this.logRange(options?.fromBlock, intentHash),
+    });
+    const event = events.find(e => !e.removed);
+    if (!event) {
+      throw new ProposalNotFoundError(intentHash, 'no CoordinationProposed event');
+    }
+
+    const tx = await this.publicClient.getTransaction({ hash: event.transactionHash });
+    for (const call of decodeCoordinationCalls(tx, this.contractAddress)) {
+      if (call.functionName !== 'proposeCoordination') continue;
+
+      const [rawIntent, signature, rawPayload] = call.args;
+      const intent: AgentIntent = { ...rawIntent, participants: [...rawIntent.participants] };
+      if (computeIntentStructHash(intent).toLowerCase() !== intentHash.toLowerCase()) continue;
+
+      const payload: CoordinationPayload = { ...rawPayload };
+      assertPayloadMatches(intentHash, intent, payload);
+
+      await this.storage.putIntent({ intent, payload, signature, blockNumber: event.blockNumber });
+
+      return {
+        intent,
+        signature,
+        payload,
+        transactionHash: event.transactionHash,
+        blockNumber: event.blockNumber,
+      };
+    }
+
+    throw new ProposalNotFoundError(
+        intentHash,
+        `transaction ${event.transactionHash} has no matching proposeCoordination call`
+    );
+  }
+
+  /**
+   * Record conditions another participant shared alongside their
+   * attestation, so checkAcceptanceConditions() can evaluate them.
+   *
+   * @returns Their conditions hash
+   */
+  async registerConditions(conditions: Condition[]): Promise<Hash> {
+    const conditionsHash = computeConditionsHash(conditions);
+    await this.storage.putConditions(conditionsHash, conditions);
+    return conditionsHash;
+  }
+
+  /**
+   * Evaluate the conditions of every participant that has accepted.
+   * Conditions are looked up in storage by conditionsHash; participants
+   * whose conditions aren't known are reported as unverifiable.
+   *
+   * @param intentHash The intent
+   * @param payload The payload to check minReceived against (default: the proposed one)
+   * @param options Where to search for acceptances missing from storage
+   */
+  async checkAcceptanceConditions(
+      intentHash: Hash,
+      payload?: CoordinationPayload,
+      options?: LogSearchOptions
+  ): Promise<AcceptanceConditionsReport> {
+    const [status, stored] = await Promise.all([
+      this.getStatus(intentHash),
+      this.storage.getAttestations(intentHash),
+    ]);
+
+    let attestations = stored.filter(a => isParticipant(a.participant, status.acceptedBy));
+    const unrecorded = status.acceptedBy.filter(
+        p => !isParticipant(p, attestations.map(a => a.participant))
+    );
+    if (unrecorded.length > 0) {
+      attestations = [
+        ...attestations,
+        ...await this.findAcceptances(intentHash, unrecorded, options?.fromBlock),
+      ];
+    }
+
+    const context: ConditionContext = {
+      publicClient: this.publicClient,
+      participants: status.participants,
+      acceptedBy: status.acceptedBy,
+      payload: payload ?? (await this.loadIntent(intentHash, options?.fromBlock))?.payload,
+      registry: this.registry,
+    };
+
+    const results: AcceptanceConditionsReport['results'] = [];
+    const unverifiable: Address[] = [];
+    for (const attestation of attestations) {
+      if (BigInt(attestation.conditionsHash) === 0n) continue;
+
+      const conditions = await this.storage.getConditions(attestation.conditionsHash);
+      if (!conditions) {
+        unverifiable.push(attestation.participant);
+        continue;
+      }
+
+      context.timestamp ??= (await this.publicClient.getBlock({ blockTag: 'latest' })).timestamp;
+      results.push({
+        participant: attestation.participant,
+        conditionsHash: attestation.conditionsHash,
+        report: await checkConditions(conditions, context),
+      });
+    }
+
+    return {
+      satisfied: results.every(r => r.report.satisfied),
+      results,
+      unverifiable,
+    };
+  }
+
+  /**
+   * Run an inspect callback on the proposal, throwing if it refuses
+   * or the proposal can't be found.
+   */
+  private async inspectProposal(
+      intentHash: Hash,
+      options?: Pick<AcceptOptions, 'inspect' | 'fromBlock'>
+  ): Promise<void> {
+    const inspect = options?.inspect;
+    if (!inspect) return;
+
+    const proposal = await this.loadIntent(intentHash, options.fromBlock);
+    if (!proposal) {
+      throw new ProposalNotFoundError(intentHash, 'nothing to inspect');
+    }
+    if (!await inspect(proposal)) {
+      throw new ProposalRejectedError(intentHash);
+    }
+  }
+
+  private async storeConditions(
+      attestation: AcceptanceAttestation,
+      conditions?: Condition[]
+  ): Promise<void> {
+    if (conditions && computeConditionsHash(conditions) === attestation.conditionsHash) {
+      await this.storage.putConditions(attestation.conditionsHash, conditions);
+    }
+  }
+
+  /**
+   * Decode a payload of a registered coordination type into a typed object.
+   */
+  decodePayload<TData = unknown>(payload: CoordinationPayload): DecodedPayload<TData> {
+    return this.registry.decodePayload<TData>(payload);
+  }
+
   /**
    * Get the domain separator.
    */
@@ -174,10 +576,106 @@ export class CoordinationClient {
     }) as Promise<Hash>;
   }
 
+  // ═══════════════════════════════════════════════════════════════════════════
+  // EVENTS
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Watch for new CoordinationProposed events.
+   *
+   * @returns A function that stops watching
+   */
+  watchProposed(options: WatchEventsOptions<CoordinationProposedEvent>): () => void {
+    return this.watchEvent('CoordinationProposed', options);
+  }
+
+  /**
+   * Watch for new CoordinationAccepted events.
+   *
+   * @returns A function that stops watching
+   */
+  watchAccepted(options: WatchEventsOptions<CoordinationAcceptedEvent>): () => void {
+    return this.watchEvent('CoordinationAccepted', options);
+  }
+
+  /**
+   * Watch for new CoordinationExecuted events.
+   *
+   * @returns A function that stops watching
+   */
+  watchExecuted(options: WatchEventsOptions<CoordinationExecutedEvent>): () => void {
+    return this.watchEvent('CoordinationExecuted', options);
+  }
+
+  /**
+   * Watch for new CoordinationCancelled events.
+   *
+   * @returns A function that stops watching
+   */
+  watchCancelled(options: WatchEventsOptions<CoordinationCancelledEvent>): () => void {
+    return this.watchEvent('CoordinationCancelled', options);
+  }
+
+  /**
+   * Fetch historical coordination events, ordered by block and log index.
+   */
+  async getEvents(options: GetEventsOptions = {}): Promise<CoordinationEvent[]> {
+    const eventNames = options.eventNames ?? COORDINATION_EVENT_NAMES;
+
+    const logs = await Promise.all(
+        eventNames.map(eventName =>
+            this.publicClient.getContractEvents({
+              address: this.contractAddress,
+              abi: AGENT_COORDINATION_ABI,
+              eventName,
+              args: eventArgs(eventName, options),
+              fromBlock: options.fromBlock ?? 'earliest',
+              toBlock: options.toBlock ?? 'latest',
+              strict: true,
+            })
+        )
+    );
+
+    return logs
+        .flat()
+        .map(toCoordinationEvent)
+        .filter((event): event is CoordinationEvent => event !== undefined)
+        .sort(compareEvents);
+  }
+
+  private watchEvent<eventName extends CoordinationEventName>(
+      eventName: eventName,
+      options: WatchEventsOptions<Extract<CoordinationEvent, { eventName: eventName }>>
+  ): () => void {
+    const parameters: WatchContractEventParameters<typeof AGENT_COORDINATION_ABI, CoordinationEventName, true> = {
+      address: this.contractAddress,
+      abi: AGENT_COORDINATION_ABI,
+      eventName,
+      args: eventArgs(eventName, options),
+      strict: true,
+      pollingInterval: options.pollingInterval,
+      onError: options.onError,
+      onLogs: (logs) => {
+        for (const log of logs) {
+          const event = toCoordinationEvent(log);
+          if (event && isEventNamed(event, eventName)) options.onEvent(event);
+        }
+      },
+    };
+    return this.publicClient.watchContractEvent(parameters);
+  }
+
   // ═══════════════════════════════════════════════════════════════════════════
   // WRITE FUNCTIONS
   // ═══════════════════════════════════════════════════════════════════════════
 
+  /**
+   * Address of the wallet client's account, if any.
+   */
+  get address(): Address | undefined {
+    return this.walletClient?.account?.address;
+  }
+
   private getAccount(): Account {
     if (!this.walletClient?.account) {
       throw new Error('Wallet client with account required for write operations');
@@ -185,82 +683,157 @@ export class CoordinationClient {
     return this.walletClient.account;
   }
 
+  /**
+   * Submit a contract write, simulating it first unless disabled.
+   * Reverts are decoded into typed errors either way.
+   *
+   * @returns The transaction hash and, when simulated, the function's return value
+   */
+  private async write<functionName extends CoordinationWriteFunction>(
+      functionName: functionName,
+      args: ContractFunctionArgs<typeof AGENT_COORDINATION_ABI, 'nonpayable' | 'payable', functionName>,
+      options?: WriteOptions
+  ): Promise<{
+    txHash: Hash;
+    result?: ContractFunctionReturnType<typeof AGENT_COORDINATION_ABI, 'nonpayable' | 'payable', functionName>;
+  }> {
+    if (!this.walletClient) {
+      throw new Error('Wallet client required for write operations');
+    }
+
+    const call = {
+      account: this.getAccount(),
+      chain: this.chain,
+      address: this.contractAddress,
+      abi: AGENT_COORDINATION_ABI,
+      functionName,
+      args,
+    };
+    const transaction = call as WriteContractParameters<
+        typeof AGENT_COORDINATION_ABI,
+        functionName,
+        typeof args,
+        Chain | undefined,
+        Account | undefined,
+        Chain
+    >;
+
+    try {
+      if (options?.simulate === false) {
+        const txHash = await this.walletClient.writeContract(transaction);
+        return { txHash };
+      }
+
+      const { result } = await this.publicClient.simulateContract(call as SimulateContractParameters<
+          typeof AGENT_COORDINATION_ABI,
+          functionName,
+          typeof args,
+          Chain | undefined,
+          Chain,
+          Account
+      >);
+      const txHash = await this.walletClient.writeContract(transaction);
+      return { txHash, result };
+    } catch (error) {
+      throw decodeContractError(error, 'coordination');
+    }
+  }
+
   /**
    * Propose a new coordination.
    *
    * @returns The intent hash and transaction hash
    */
-  async propose(options: CreateIntentOptions): Promise<{
+  async propose(
+      options: CreateIntentOptions,
+      writeOptions?: WriteOptions
+  ): Promise<{
     intentHash: Hash;
     txHash: Hash;
     intent: AgentIntent;
     payload: CoordinationPayload;
+    /** Intent hash returned by the simulated call */
+    simulatedIntentHash?: Hash;
   }> {
-    if (!this.walletClient) {
+    const walletClient = this.walletClient;
+    if (!walletClient) {
       throw new Error('Wallet client required for write operations');
     }
 
-    const account = this.getAccount();
+    // Hold the agent's nonce until the proposal is broadcast, so a later
+    // nonce can't reach the chain first and make this one too low
+    return this.nonceManager.withNonce(options.agentId, async (nonce) => {
+      // Build intent and payload; createIntent takes the previous nonce and adds 1
+      const { intent, payload } = createIntent({ registry: this.registry, ...options }, nonce - 1n);
 
-    // Get current nonce
-    const nonce = await this.getAgentNonce(options.agentId);
+      // Validate
+      validateIntent(intent);
 
-    // Build intent and payload
-    const { intent, payload } = createIntent(options, nonce);
+      // Compute intent hash
+      const intentHash = computeIntentStructHash(intent);
 
-    // Validate
-    validateIntent(intent);
+      // Create domain
+      const domain = createDomain(this.chainId, this.contractAddress);
 
-    // Compute intent hash
-    const intentHash = computeIntentStructHash(intent);
+      // Sign intent
+      const signature = await signIntent(walletClient, domain, intent);
 
-    // Create domain
-    const domain = createDomain(this.chainId, this.contractAddress);
+      // Persist before sending: execute needs the payload, which the chain doesn't return.
+      // The current block bounds where the intent's logs can appear
+      const blockNumber = await this.publicClient.getBlockNumber();
+      await this.storage.putIntent({ intent, payload, signature, blockNumber });
 
-    // Sign intent
-    const signature = await signIntent(this.walletClient, domain, intent);
+      // Submit transaction
+      const { txHash, result: simulatedIntentHash } = await this.write(
+          'proposeCoordination',
+          [intent, signature, payload],
+          writeOptions
+      );
 
-    // Submit transaction
-    const txHash = await this.walletClient.writeContract({
-      account,
-      chain: this.chain,
-      address: this.contractAddress,
-      abi: AGENT_COORDINATION_ABI,
-      functionName: 'proposeCoordination',
-      args: [intent, signature, payload],
+      return { intentHash, txHash, intent, payload, simulatedIntentHash };
     });
-
-    return { intentHash, txHash, intent, payload };
   }
 
   /**
    * Accept a coordination as a participant.
+   * Pass `conditions` to state constraints; their hash is signed and they
+   * are kept in storage so they can be checked before execute.
+   * Pass `inspect` to review the proposed intent and payload before signing.
    *
    * @returns The transaction hash
    */
   async accept(
       intentHash: Hash,
-      options?: Partial<CreateAttestationOptions>
-  ): Promise<{ txHash: Hash; attestation: AcceptanceAttestation }> {
+      options?: Partial<CreateAttestationOptions>,
+      writeOptions?: AcceptOptions
+  ): Promise<{
+    txHash: Hash;
+    attestation: AcceptanceAttestation;
+    /** Whether this acceptance completes the set, from the simulated call */
+    allAccepted?: boolean;
+  }> {
     if (!this.walletClient) {
       throw new Error('Wallet client required for write operations');
     }
 
-    const account = this.getAccount();
-    const participant = account.address;
+    const participant = this.getAccount().address;
 
     // Get coordination to validate participant
     const status = await this.getStatus(intentHash);
 
+    await this.inspectProposal(intentHash, writeOptions);
+
     // Build attestation
     const attestationOptions: CreateAttestationOptions = {
       intentHash,
       participant,
       conditionsHash: options?.conditionsHash,
+      conditions: options?.conditions,
       ttlSeconds: options?.ttlSeconds,
     };
 
-    const unsignedAttestation = createAttestation(attestationOptions);
+    const nonce = await this.acceptanceNonces.next(participant, intentHash);
+    const unsignedAttestation = createAttestation(attestationOptions, nonce);
 
     // Create domain
     const domain = createDomain(this.chainId, this.contractAddress);
@@ -271,52 +844,92 @@ export class CoordinationClient {
     // Validate
     validateAttestation(attestation, status.participants);
 
+    await this.storage.putAttestation(attestation);
+    await this.storeConditions(attestation, options?.conditions);
+
     // Submit transaction
-    const txHash = await this.walletClient.writeContract({
-      account,
-      chain: this.chain,
-      address: this.contractAddress,
-      abi: AGENT_COORDINATION_ABI,
-      functionName: 'acceptCoordination',
-      args: [intentHash, attestation],
-    });
+    const { txHash, result: allAccepted } = await this.write(
+        'acceptCoordination',
+        [intentHash, attestation],
+        writeOptions
+    );
 
-    return { txHash, attestation };
+    return { txHash, attestation, allAccepted };
   }
 
   /**
    * Execute a ready coordination.
+   * The payload is loaded from storage, or the proposal transaction, when
+   * omitted. Either way it is checked against the proposed intent's
+   * payloadHash and coordinationType before sending. A given payload whose
+   * proposal can't be found throws ProposalNotFoundError, unless
+   * `allowUnverifiedPayload` is set.
+   *
+   * Acceptances that expired after being recorded make execution revert,
+   * so they are checked first and throw StaleAcceptanceError. The contract
+   * rejects a second acceptance from the same participant, so a stale
+   * acceptance can't be refreshed; the coordination has to be cancelled
+   * and proposed again. Participants' known acceptance conditions are
+   * then evaluated, throwing ConditionsNotMetError if any fail.
    *
    * @returns The transaction hash and execution result
    */
   async execute(
       intentHash: Hash,
-      payload: CoordinationPayload,
-      executionData: Hex = '0x'
-  ): Promise<{ txHash: Hash }> {
+      payload?: CoordinationPayload,
+      executionData: Hex = '0x',
+      writeOptions?: ExecuteOptions
+  ): Promise<{
+    txHash: Hash;
+    /** Execution outcome from the simulated call */
+    success?: boolean;
+    result?: Hex;
+  }> {
     if (!this.walletClient) {
       throw new Error('Wallet client required for write operations');
     }
 
-    const account = this.getAccount();
+    const check = await this.checkExecutable(intentHash, writeOptions);
+    if (check.stale.length > 0) {
+      throw new StaleAcceptanceError(intentHash, check.stale.map(a => a.participant));
+    }
 
     // Verify status is Ready
-    const status = await this.getStatus(intentHash);
-    if (status.status !== 2) { // Status.Ready
-      throw new Error(`Coordination not ready. Current status: ${status.status}`);
+    const { status } = check;
+    if (status.status !== Status.Ready) {
+      throw new Error(`Coordination not ready. Current status: ${Status[status.status]}`);
+    }
+
+    const proposal = await this.loadIntent(intentHash, writeOptions?.fromBlock);
+    const executionPayload = payload ?? proposal?.payload;
+    if (!executionPayload) {
+      throw new Error(`No payload given, stored or recoverable for intent ${intentHash}`);
+    }
+    if (proposal) {
+      assertPayloadMatches(intentHash, proposal.intent, executionPayload);
+    } else if (!writeOptions?.allowUnverifiedPayload) {
+      throw new ProposalNotFoundError(intentHash, 'cannot verify the given payload against its intent');
+    }
+
+    if (writeOptions?.checkConditions !== false) {
+      const conditions = await this.checkAcceptanceConditions(intentHash, executionPayload, writeOptions);
+      if (!conditions.satisfied) {
+        throw new ConditionsNotMetError(intentHash, conditions.results.flatMap(({ participant, report }) =>
+          report.results
+              .filter(r => !r.satisfied)
+              .map(r => ({ participant, reason: r.reason ?? r.condition.kind }))
+        ));
+      }
     }
 
     // Submit transaction
-    const txHash = await this.walletClient.writeContract({
-      account,
-      chain: this.chain,
-      address: this.contractAddress,
-      abi: AGENT_COORDINATION_ABI,
-      functionName: 'executeCoordination',
-      args: [intentHash, payload, executionData],
-    });
+    const { txHash, result } = await this.write(
+        'executeCoordination',
+        [intentHash, executionPayload, executionData],
+        writeOptions
+    );
 
-    return { txHash };
+    return { txHash, success: result?.[0], result: result?.[1] };
   }
 
   /**
@@ -324,29 +937,265 @@ export class CoordinationClient {
    * Before expiry: only proposer can cancel.
    * After expiry: anyone can cancel.
    */
-  async cancel(intentHash: Hash, reason: string = ''): Promise<{ txHash: Hash }> {
+  async cancel(
+      intentHash: Hash,
+      reason: string = '',
+      writeOptions?: WriteOptions
+  ): Promise<{ txHash: Hash }> {
     if (!this.walletClient) {
       throw new Error('Wallet client required for write operations');
     }
 
-    const account = this.getAccount();
+    const { txHash } = await this.write(
+        'cancelCoordination',
+        [intentHash, reason],
+        writeOptions
+    );
 
-    const txHash = await this.walletClient.writeContract({
-      account,
-      chain: this.chain,
-      address: this.contractAddress,
+    return { txHash };
+  }
+
+  /**
+   * Cancel several coordinations in one transaction through Multicall3.
+   * Only useful after expiry, when anyone may cancel. Calls are allowed to
+   * fail individually so a coordination cancelled in the meantime does
+   * not revert the batch; use confirmCancelled() to see which went through.
+   */
+  async cancelMany(
+      intentHashes: Hash[],
+      reason: string = '',
+      writeOptions?: WriteOptions
+  ): Promise<{ txHash: Hash }> {
+    const txHash = await this.writeMulticall(
+        this.encodeCancels(intentHashes, reason),
+        writeOptions,
+        true
+    );
+    return { txHash };
+  }
+
+  /**
+   * Wait for a cancel transaction to be mined and return which of the
+   * given intents it cancelled, from its CoordinationCancelled logs.
+   */
+  async confirmCancelled(txHash: Hash, intentHashes: Hash[]): Promise<Hash[]> {
+    const receipt = await this.publicClient.waitForTransactionReceipt({ hash: txHash });
+    if (receipt.status !== 'success') return [];
+
+    const cancelled = new Set(parseEventLogs({
+      abi: AGENT_COORDINATION_ABI,
+      eventName: 'CoordinationCancelled',
+      logs: receipt.logs.filter(
+          log => log.address.toLowerCase() === this.contractAddress.toLowerCase()
+      ),
+    }).map(log => log.args.intentHash.toLowerCase()));
+
+    return intentHashes.filter(h => cancelled.has(h.toLowerCase()));
+  }
+
+  /**
+   * Estimate the gas of cancelMany() for the same arguments.
+   */
+  async estimateCancelGas(intentHashes: Hash[], reason: string = ''): Promise<bigint> {
+    try {
+      return await this.publicClient.estimateContractGas(
+          this.multicallParameters(this.encodeCancels(intentHashes, reason), true)
+      );
+    } catch (error) {
+      throw decodeContractError(error, 'coordination');
+    }
+  }
+
+  private encodeCancels(intentHashes: Hash[], reason: string): Hex[] {
+    return intentHashes.map(intentHash => encodeFunctionData({
       abi: AGENT_COORDINATION_ABI,
       functionName: 'cancelCoordination',
       args: [intentHash, reason],
-    });
+    }));
+  }
 
-    return { txHash };
+  /**
+   * Submit acceptances that participants signed off-chain.
+   * Anyone can relay them; participants already accepted on-chain are skipped,
+   * and of several attestations from one participant only the last is sent.
+   *
+   * @returns The submitted transaction hashes and who was submitted or skipped
+   */
+  async submitAcceptances(
+      intentHash: Hash,
+      attestations: AcceptanceAttestation[],
+      options?: SubmitAcceptancesOptions
+  ): Promise<{ txHashes: Hash[]; submitted: Address[]; skipped: Address[] }> {
+    if (!this.walletClient) {
+      throw new Error('Wallet client required for write operations');
+    }
+
+    const status = await this.getStatus(intentHash);
+
+    const pending: AcceptanceAttestation[] = [];
+    const skipped: Address[] = [];
+    for (const attestation of await this.prepareAcceptances(intentHash, attestations, status)) {
+      if (isParticipant(attestation.participant, status.acceptedBy)) {
+        skipped.push(attestation.participant);
+      } else {
+        pending.push(attestation);
+      }
+    }
+
+    const submitted = pending.map(a => a.participant);
+    if (pending.length === 0) {
+      return { txHashes: [], submitted, skipped };
+    }
+
+    if (options?.mode === 'multicall') {
+      const calls = pending.map(attestation => encodeFunctionData({
+        abi: AGENT_COORDINATION_ABI,
+        functionName: 'acceptCoordination',
+        args: [intentHash, attestation],
+      }));
+      const txHash = await this.writeMulticall(calls, options);
+      return { txHashes: [txHash], submitted, skipped };
+    }
+
+    const txHashes: Hash[] = [];
+    for (const attestation of pending) {
+      const { txHash } = await this.write('acceptCoordination', [intentHash, attestation], options);
+      txHashes.push(txHash);
+    }
+
+    return { txHashes, submitted, skipped };
+  }
+
+  /**
+   * Validate, verify and store attestations collected off-chain.
+   */
+  private async prepareAcceptances(
+      intentHash: Hash,
+      attestations: AcceptanceAttestation[],
+      status: CoordinationStatus
+  ): Promise<AcceptanceAttestation[]> {
+    const domain = createDomain(this.chainId, this.contractAddress);
+
+    // The contract reverts a second acceptance from a participant, so keep
+    // only the last one given for each, as Storage.putAttestation does
+    const latest = new Map<Address, AcceptanceAttestation>();
+    for (const attestation of attestations) {
+      latest.set(getAddress(attestation.participant), attestation);
+    }
+
+    for (const attestation of latest.values()) {
+      if (attestation.intentHash.toLowerCase() !== intentHash.toLowerCase()) {
+        throw new Error(`Attestation from ${attestation.participant} is for another intent`);
+      }
+      validateAttestation(attestation, status.participants);
+
+      const valid = await verifyAcceptance(domain, attestation, { publicClient: this.publicClient });
+      if (!valid) {
+        throw new SignatureVerificationError(attestation.participant, 'acceptance');
+      }
+
+      await this.storage.putAttestation(attestation);
+    }
+
+    return [...latest.values()];
+  }
+
+  /**
+   * Submit collected acceptances, wait for them to be mined, then execute.
+   *
+   * @returns The acceptance and execution transaction hashes
+   */
+  async relayAndExecute(
+      intentHash: Hash,
+      payload: CoordinationPayload | undefined,
+      attestations: AcceptanceAttestation[],
+      options?: SubmitAcceptancesOptions & ExecuteOptions & { executionData?: Hex }
+  ): Promise<{
+    acceptTxHashes: Hash[];
+    txHash: Hash;
+    success?: boolean;
+    result?: Hex;
+  }> {
+    const { txHashes } = await this.submitAcceptances(intentHash, attestations, options);
+
+    for (const hash of txHashes) {
+      const receipt = await this.publicClient.waitForTransactionReceipt({ hash });
+      if (receipt.status !== 'success') {
+        throw new Error(`Acceptance transaction ${hash} reverted`);
+      }
+    }
+
+    const execution = await this.execute(intentHash, payload, options?.executionData, options);
+
+    return { acceptTxHashes: txHashes, ...execution };
+  }
+
+  /**
+   * Send a batch of calls to this contract through Multicall3.
+   */
+  private async writeMulticall(
+      calls: Hex[],
+      options?: WriteOptions,
+      allowFailure: boolean = false
+  ): Promise<Hash> {
+    if (!this.walletClient) {
+      throw new Error('Wallet client required for write operations');
+    }
+
+    const parameters = this.multicallParameters(calls, allowFailure);
+
+    try {
+      if (options?.simulate === false) {
+        return await this.walletClient.writeContract(parameters);
+      }
+
+      const { request } = await this.publicClient.simulateContract(parameters);
+      return await this.walletClient.writeContract(request);
+    } catch (error) {
+      throw decodeContractError(error, 'coordination');
+    }
+  }
+
+  private multicallParameters(calls: Hex[], allowFailure: boolean) {
+    const multicallAddress = this.chain.contracts?.multicall3?.address;
+    if (!multicallAddress) {
+      throw new Error(`No multicall3 contract configured for chain ${this.chain.id}`);
+    }
+
+    return {
+      account: this.getAccount(),
+      chain: this.chain,
+      address: multicallAddress,
+      abi: MULTICALL3_ABI,
+      functionName: 'aggregate3',
+      args: [calls.map(callData => ({
+        target: this.contractAddress,
+        allowFailure,
+        callData,
+      }))],
+    } as const;
   }
 
   // ═══════════════════════════════════════════════════════════════════════════
   // UTILITIES
   // ═══════════════════════════════════════════════════════════════════════════
 
+  /**
+   * Start collecting off-chain acceptances for an intent.
+   * Participants that already accepted on-chain are pre-marked.
+   */
+  async createCollector(intentHash: Hash): Promise<AcceptanceCollector> {
+    const status = await this.getStatus(intentHash);
+
+    const collector = new AcceptanceCollector(
+        { intentHash, participants: status.participants },
+        { domain: createDomain(this.chainId, this.contractAddress), publicClient: this.publicClient }
+    );
+    collector.markAccepted(status.acceptedBy);
+
+    return collector;
+  }
+
   /**
    * Build an intent without submitting.
    * Useful for multi-party signature collection.
@@ -356,10 +1205,12 @@ export class CoordinationClient {
     payload: CoordinationPayload;
     intentHash: Hash;
   }> {
-    const nonce = await this.getAgentNonce(options.agentId);
-    const { intent, payload } = createIntent(options, nonce);
+    const nonce = await this.nonceManager.reserve(options.agentId);
+    const { intent, payload } = createIntent({ registry: this.registry, ...options }, nonce - 1n);
     const intentHash = computeIntentStructHash(intent);
 
+    await this.storage.putIntent({ intent, payload });
+
     return { intent, payload, intentHash };
   }
 
@@ -372,7 +1223,15 @@ export class CoordinationClient {
     }
 
     const domain = createDomain(this.chainId, this.contractAddress);
-    return signIntent(this.walletClient, domain, intent);
+    const signature = await signIntent(this.walletClient, domain, intent);
+
+    // Attach the signature to an intent prepared with buildIntent()
+    const stored = await this.storage.getIntent(computeIntentStructHash(intent));
+    if (stored) {
+      await this.storage.putIntent({ ...stored, signature });
+    }
+
+    return signature;
   }
 
   /**
@@ -380,52 +1239,347 @@ export class CoordinationClient {
    */
   async signAcceptance(
       intentHash: Hash,
-      options?: Partial<CreateAttestationOptions>
+      options?: Partial<CreateAttestationOptions>,
+      acceptOptions?: Pick<AcceptOptions, 'inspect' | 'fromBlock'>
   ): Promise<AcceptanceAttestation> {
     if (!this.walletClient?.account) {
       throw new Error('Wallet client with account required for signing');
     }
 
+    await this.inspectProposal(intentHash, acceptOptions);
+
     const participant = this.walletClient.account.address;
 
     const attestationOptions: CreateAttestationOptions = {
       intentHash,
       participant,
       conditionsHash: options?.conditionsHash,
+      conditions: options?.conditions,
       ttlSeconds: options?.ttlSeconds,
     };
 
-    const unsignedAttestation = createAttestation(attestationOptions);
+    const nonce = await this.acceptanceNonces.next(participant, intentHash);
+    const unsignedAttestation = createAttestation(attestationOptions, nonce);
     const domain = createDomain(this.chainId, this.contractAddress);
 
-    return signAcceptance(this.walletClient, domain, unsignedAttestation);
+    const attestation = await signAcceptance(this.walletClient, domain, unsignedAttestation);
+    await this.storage.putAttestation(attestation);
+    await this.storeConditions(attestation, options?.conditions);
+
+    return attestation;
   }
 
   /**
    * Wait for a coordination to reach Ready status.
+   *
+   * Resolves from the CoordinationAccepted log where acceptedCount equals
+   * requiredCount, once that log has the requested number of confirmations
+   * and the contract still reports Ready. Falls back to polling the status
+   * when the transport can't subscribe to logs.
    */
   async waitForReady(
       intentHash: Hash,
-      options?: { pollIntervalMs?: number; timeoutMs?: number }
+      options?: WaitForReadyOptions
   ): Promise<CoordinationStatus> {
+    const confirmations = BigInt(Math.max(options?.confirmations ?? 1, 1));
     const pollInterval = options?.pollIntervalMs ?? 2000;
     const timeout = options?.timeoutMs ?? 60000;
-    const startTime = Date.now();
+    const signal = options?.signal;
+
+    signal?.throwIfAborted();
 
-    while (Date.now() - startTime < timeout) {
-      const status = await this.getStatus(intentHash);
+    return new Promise<CoordinationStatus>((resolve, reject) => {
+      const cleanups: Array<() => void> = [];
+      let settled = false;
+      let confirming = false;
 
-      if (status.status === 2) { // Ready
-        return status;
+      const settle = (fn: () => void) => {
+        if (settled) return;
+        settled = true;
+        cleanups.forEach(cleanup => cleanup());
+        fn();
+      };
+      const fail = (error: unknown) => settle(() => reject(error));
+
+      // Wait until `readyBlock` is buried, then re-check the contract in case
+      // the acceptance was reorged out in the meantime.
+      const confirm = (readyBlock: bigint) => {
+        if (settled) return;
+        const target = readyBlock + confirmations - 1n;
+        let done = false;
+        const unwatch = this.publicClient.watchBlockNumber({
+          emitOnBegin: true,
+          pollingInterval: pollInterval,
+          onError: fail,
+          onBlockNumber: (blockNumber) => {
+            if (done || blockNumber < target) return;
+            done = true;
+            unwatch();
+            this.getStatus(intentHash).then(status => {
+              if (status.status === Status.Ready) {
+                settle(() => resolve(status));
+              } else {
+                confirming = false;
+                check(status);
+              }
+            }, fail);
+          },
+        });
+        cleanups.push(unwatch);
+      };
+
+      const check = (status: CoordinationStatus) => {
+        const now = BigInt(Math.floor(Date.now() / 1000));
+
+        if (status.status === Status.Ready) {
+          if (confirming) return;
+          confirming = true;
+          this.findReadyBlock(intentHash, options?.fromBlock).then(confirm, fail);
+        } else if (status.status >= Status.Executed) {
+          fail(new CoordinationEndedError(intentHash, status.status));
+        } else if (status.status === Status.Proposed && status.expiry <= now) {
+          fail(new CoordinationEndedError(intentHash, Status.Expired));
+        }
+      };
+
+      const timer = setTimeout(
+          () => fail(new TimeoutError(`Timeout waiting for coordination ${intentHash} to be ready`)),
+          timeout
+      );
+      cleanups.push(() => clearTimeout(timer));
+
+      if (signal) {
+        const onAbort = () => fail(signal.reason);
+        signal.addEventListener('abort', onAbort, { once: true });
+        cleanups.push(() => signal.removeEventListener('abort', onAbort));
       }
 
-      if (status.status >= 3) { // Executed, Cancelled, or Expired
-        throw new Error(`Coordination ended with status: ${status.status}`);
+      if (canSubscribe(this.publicClient)) {
+        cleanups.push(this.watchAccepted({
+          intentHash,
+          onError: fail,
+          onEvent: (event) => {
+            if (event.removed || event.acceptedCount !== event.requiredCount || confirming) return;
+            confirming = true;
+            confirm(event.blockNumber);
+          },
+        }));
+        cleanups.push(this.watchCancelled({
+          intentHash,
+          onError: fail,
+          onEvent: (event) => {
+            if (!event.removed) fail(new CoordinationEndedError(intentHash, event.finalStatus));
+          },
+        }));
+
+        // The last acceptance may have landed before we subscribed
+        this.getStatus(intentHash).then(check, fail);
+      } else {
+        let pollTimer: ReturnType<typeof setTimeout> | undefined;
+        cleanups.push(() => clearTimeout(pollTimer));
+
+        const poll = () => {
+          this.getStatus(intentHash).then(status => {
+            if (settled) return;
+            check(status);
+            pollTimer = setTimeout(poll, pollInterval);
+          }, fail);
+        };
+        poll();
       }
+    });
+  }
+
+  /**
+   * Find the block of the acceptance that made an intent Ready, searching
+   * from `fromBlock` or the last LOG_LOOKBACK_BLOCKS blocks. Falls back
+   * to the current block when the log can't be found, which only makes
+   * the wait for confirmations longer.
+   */
+  private async findReadyBlock(intentHash: Hash, fromBlock?: bigint): Promise<bigint> {
+    const range = await this.logRange(fromBlock, intentHash);
+    const events = await this.getEvents({
+      intentHash,
+      ...range,
+      eventNames: ['CoordinationAccepted'],
+    });
+
+    const final = events
+        .filter((event): event is Extract<CoordinationEvent, { eventName: 'CoordinationAccepted' }> =>
+            event.eventName === 'CoordinationAccepted' &&
+            event.acceptedCount === event.requiredCount)
+        .pop();
+
+    return final?.blockNumber ?? range.toBlock;
+  }
+
+  /**
+   * Block range for an intent's log searches: from `fromBlock` (which may
+   * be 'earliest' for the full history), else the block stored with the
+   * intent, else the last LOG_LOOKBACK_BLOCKS blocks, up to the current block.
+   */
+  private async logRange(
+      fromBlock?: LogSearchOptions['fromBlock'],
+      intentHash?: Hash
+  ): Promise<{ fromBlock: bigint | 'earliest'; toBlock: bigint }> {
+    const [latest, stored] = await Promise.all([
+      this.publicClient.getBlockNumber(),
+      fromBlock === undefined && intentHash ? this.storage.getIntent(intentHash) : undefined,
+    ]);
+    return {
+      fromBlock: fromBlock
+          ?? stored?.blockNumber
+          ?? (latest > LOG_LOOKBACK_BLOCKS ? latest - LOG_LOOKBACK_BLOCKS : 0n),
+      toBlock: latest,
+    };
+  }
+}
 
-      await new Promise(resolve => setTimeout(resolve, pollInterval));
+// ═══════════════════════════════════════════════════════════════════════════
+// EVENT HELPERS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Blocks searched back for an intent's logs when no fromBlock is given,
+ * within common eth_getLogs range limits.
+ */
+const LOG_LOOKBACK_BLOCKS = 1_000n;
+
+const COORDINATION_EVENT_NAMES: CoordinationEventName[] = [
+  'CoordinationProposed',
+  'CoordinationAccepted',
+  'CoordinationExecuted',
+  'CoordinationCancelled',
+];
+
+/**
+ * The indexed address argument of each event, used for participant filters.
+ */
+const EVENT_ADDRESS_ARG: Record<CoordinationEventName, string> = {
+  CoordinationProposed: 'proposer',
+  CoordinationAccepted: 'participant',
+  CoordinationExecuted: 'executor',
+  CoordinationCancelled: 'canceller',
+};
+
+/**
+ * Shape of a decoded log as returned by viem, before narrowing.
+ */
+interface RawEventLog {
+  eventName: string;
+  args: Record<string, unknown>;
+  blockNumber: bigint | null;
+  blockHash: Hash | null;
+  transactionHash: Hash | null;
+  logIndex: number | null;
+  removed: boolean;
+}
+
+function eventArgs(
+    eventName: CoordinationEventName,
+    filter: { intentHash?: Hash; participant?: Address }
+): Record<string, unknown> | undefined {
+  const args: Record<string, unknown> = {};
+  if (filter.intentHash) args.intentHash = filter.intentHash;
+  if (filter.participant) args[EVENT_ADDRESS_ARG[eventName]] = filter.participant;
+  return Object.keys(args).length > 0 ? args : undefined;
+}
+
+/**
+ * Convert a viem log into a typed event. Pending logs are skipped.
+ */
+function toCoordinationEvent(log: RawEventLog): CoordinationEvent | undefined {
+  if (log.blockNumber === null || log.blockHash === null ||
+      log.transactionHash === null || log.logIndex === null) {
+    return undefined;
+  }
+
+  return {
+    eventName: log.eventName,
+    ...log.args,
+    blockNumber: log.blockNumber,
+    blockHash: log.blockHash,
+    transactionHash: log.transactionHash,
+    logIndex: log.logIndex,
+    removed: log.removed,
+  } as CoordinationEvent;
+}
+
+/**
+ * Whether the client's transport can push logs instead of being polled.
+ */
+function canSubscribe(client: PublicClient): boolean {
+  const transport = client.transport as {
+    type: string;
+    transports?: Array<{ config: { type: string } }>;
+  };
+  const type = transport.type === 'fallback'
+      ? transport.transports?.[0]?.config.type
+      : transport.type;
+  return type === 'webSocket' || type === 'ipc';
+}
+
+function isEventNamed<eventName extends CoordinationEventName>(
+    event: CoordinationEvent,
+    eventName: eventName
+): event is Extract<CoordinationEvent, { eventName: eventName }> {
+  return event.eventName === eventName;
+}
+
+function compareEvents(a: CoordinationEvent, b: CoordinationEvent): number {
+  if (a.blockNumber !== b.blockNumber) {
+    return a.blockNumber < b.blockNumber ? -1 : 1;
+  }
+  return a.logIndex - b.logIndex;
+}
+
+/**
+ * Throw unless the payload hashes to the intent's payloadHash and
+ * carries the intent's coordinationType.
+ */
+function assertPayloadMatches(intentHash: Hash, intent: AgentIntent, payload: CoordinationPayload): void {
+  if (computePayloadHash(payload).toLowerCase() !== intent.payloadHash.toLowerCase()) {
+    throw new PayloadMismatchError(intentHash, `payload hash differs from intent.payloadHash ${intent.payloadHash}`);
+  }
+  if (payload.coordinationType.toLowerCase() !== intent.coordinationType.toLowerCase()) {
+    throw new PayloadMismatchError(
+        intentHash,
+        `payload.coordinationType ${payload.coordinationType} differs from intent.coordinationType ${intent.coordinationType}`
+    );
+  }
+}
+
+type CoordinationCall = DecodeFunctionDataReturnType<typeof AGENT_COORDINATION_ABI>;
+
+/**
+ * Decode the calls a transaction made to the coordination contract,
+ * either directly or through Multicall3 aggregate3. Calls routed through
+ * other contracts (e.g. smart accounts) can't be recovered.
+ */
+function decodeCoordinationCalls(
+    tx: { to: Address | null; input: Hex },
+    contractAddress: Address
+): CoordinationCall[] {
+  const decode = (data: Hex): CoordinationCall | undefined => {
+    try {
+      return decodeFunctionData({ abi: AGENT_COORDINATION_ABI, data });
+    } catch {
+      return undefined;
     }
+  };
+
+  if (tx.to && getAddress(tx.to) === getAddress(contractAddress)) {
+    const call = decode(tx.input);
+    return call ? [call] : [];
+  }
 
-    throw new Error('Timeout waiting for coordination to be ready');
+  try {
+    const { args } = decodeFunctionData({ abi: MULTICALL3_ABI, data: tx.input });
+    return args[0]
+        .filter(c => getAddress(c.target) === getAddress(contractAddress))
+        .map(c => decode(c.callData))
+        .filter((c): c is CoordinationCall => c !== undefined);
+  } catch {
+    return [];
   }
-}
\ No newline at end of file
+}
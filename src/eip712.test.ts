@@ -0,0 +1,132 @@
+import { describe, expect, it } from 'vitest';
+import {
+  type Address,
+  type Hash,
+  type Hex,
+  type PublicClient,
+  createWalletClient,
+  custom,
+  parseSignature,
+  serializeCompactSignature,
+  signatureToCompactSignature,
+} from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
+
+import type { AcceptanceAttestation, AgentIntent } from './types';
+import {
+  createDomain,
+  computeIntentDigest,
+  signAcceptance,
+  signIntent,
+  verifyAcceptance,
+  verifyIntentSignature,
+} from './eip712';
+
+const signer = privateKeyToAccount(`0x${'01'.repeat(32)}`);
+const other = privateKeyToAccount(`0x${'02'.repeat(32)}`);
+const wallet = '0x00000000000000000000000000000000000000b1' as Address;
+const domain = createDomain(1n, '0x00000000000000000000000000000000000000c1');
+
+const walletClient = createWalletClient({
+  account: signer,
+  transport: custom({ request: async () => { throw new Error('no RPC expected'); } }),
+});
+
+function intentFor(agentId: Address): AgentIntent {
+  return {
+    payloadHash: `0x${'aa'.repeat(32)}`,
+    expiry: 2_000_000_000n,
+    nonce: 1n,
+    agentId,
+    coordinationType: `0x${'bb'.repeat(32)}`,
+    coordinationValue: 0n,
+    participants: [agentId],
+  };
+}
+
+function attestationFor(participant: Address): Omit<AcceptanceAttestation, 'signature'> {
+  return {
+    intentHash: `0x${'cc'.repeat(32)}`,
+    participant,
+    nonce: 0n,
+    expiry: 2_000_000_000n,
+    conditionsHash: `0x${'00'.repeat(32)}`,
+  };
+}
+
+function compact(signature: Hex): Hex {
+  return serializeCompactSignature(signatureToCompactSignature(parseSignature(signature)));
+}
+
+/**
+ * A public client that sees `wallet` as an ERC-1271 contract answering with `magicValue`.
+ */
+function erc1271Client(magicValue: Hex, calls: Array<[Hash, Hex]> = []): PublicClient {
+  return {
+    getCode: async ({ address }: { address: Address }) => address === wallet ? '0x6080' : undefined,
+    readContract: async ({ args }: { args: [Hash, Hex] }) => {
+      calls.push(args);
+      return magicValue;
+    },
+  } as unknown as PublicClient;
+}
+
+describe('verifyIntentSignature', () => {
+  it('accepts the agent\'s signature, in full and compact form', async () => {
+    const intent = intentFor(signer.address);
+    const signature = await signIntent(walletClient, domain, intent);
+
+    expect(await verifyIntentSignature(domain, intent, signature)).toBe(true);
+    expect(await verifyIntentSignature(domain, intent, compact(signature))).toBe(true);
+  });
+
+  it('rejects another signer and tampered intents', async () => {
+    const intent = intentFor(other.address);
+    const signature = await signIntent(walletClient, domain, intent);
+
+    expect(await verifyIntentSignature(domain, intent, signature)).toBe(false);
+
+    const own = intentFor(signer.address);
+    const ownSignature = await signIntent(walletClient, domain, own);
+    expect(await verifyIntentSignature(domain, { ...own, nonce: 2n }, ownSignature)).toBe(false);
+    expect(await verifyIntentSignature(domain, own, '0x1234')).toBe(false);
+  });
+
+  it('falls back to ERC-1271 for contract agents', async () => {
+    const intent = intentFor(wallet);
+    const signature = await signIntent(walletClient, domain, intent);
+    const calls: Array<[Hash, Hex]> = [];
+
+    expect(await verifyIntentSignature(domain, intent, signature, {
+      publicClient: erc1271Client('0x1626ba7e', calls),
+    })).toBe(true);
+    expect(calls).toEqual([[computeIntentDigest(domain, intent), signature]]);
+
+    expect(await verifyIntentSignature(domain, intent, signature, {
+      publicClient: erc1271Client('0xffffffff'),
+    })).toBe(false);
+    expect(await verifyIntentSignature(domain, intent, signature)).toBe(false);
+  });
+});
+
+describe('verifyAcceptance', () => {
+  it('accepts the participant\'s signature, in full and compact form', async () => {
+    const attestation = await signAcceptance(walletClient, domain, attestationFor(signer.address));
+
+    expect(await verifyAcceptance(domain, attestation)).toBe(true);
+    expect(await verifyAcceptance(domain, { ...attestation, signature: compact(attestation.signature) })).toBe(true);
+  });
+
+  it('rejects another signer', async () => {
+    const attestation = await signAcceptance(walletClient, domain, attestationFor(other.address));
+
+    expect(await verifyAcceptance(domain, attestation)).toBe(false);
+  });
+
+  it('falls back to ERC-1271 for contract participants', async () => {
+    const attestation = await signAcceptance(walletClient, domain, attestationFor(wallet));
+
+    expect(await verifyAcceptance(domain, attestation, { publicClient: erc1271Client('0x1626ba7e') })).toBe(true);
+    expect(await verifyAcceptance(domain, attestation, { publicClient: erc1271Client('0x00000000') })).toBe(false);
+  });
+});
@@ -8,12 +8,18 @@ import {
   type Address,
   type Hash,
   type Hex,
+  type PublicClient,
   type WalletClient,
   keccak256,
   encodePacked,
   encodeAbiParameters,
   parseAbiParameters,
   hashTypedData,
+  recoverAddress,
+  parseCompactSignature,
+  compactSignatureToSignature,
+  isAddressEqual,
+  size,
 } from 'viem';
 
 import type {
@@ -23,6 +29,8 @@ import type {
   ERC8001Domain,
 } from './types';
 
+import { ERC1271_ABI } from './abis/AgentCoordination';
+
 // ═══════════════════════════════════════════════════════════════════════════
 // TYPEHASHES (spec-compliant)
 // ═══════════════════════════════════════════════════════════════════════════
@@ -287,4 +295,115 @@ export function computeAcceptanceDigest(
       conditionsHash: attestation.conditionsHash,
     },
   });
-}
\ No newline at end of file
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// SIGNATURE VERIFICATION
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * bytes4(keccak256("isValidSignature(bytes32,bytes)"))
+ */
+const ERC1271_MAGIC_VALUE = '0x1626ba7e';
+
+/**
+ * Options for signature verification.
+ */
+export interface VerifySignatureOptions {
+  /** Enables the ERC-1271 fallback for smart-contract wallets */
+  publicClient?: PublicClient;
+}
+
+/**
+ * Recover the ECDSA signer of a digest.
+ * Accepts 65-byte (r, s, v) and 64-byte compact (EIP-2098) signatures.
+ * Returns undefined if the signature is malformed.
+ */
+export async function recoverDigestSigner(
+    digest: Hash,
+    signature: Hex
+): Promise<Address | undefined> {
+  try {
+    switch (size(signature)) {
+      case 64:
+        return await recoverAddress({
+          hash: digest,
+          signature: compactSignatureToSignature(parseCompactSignature(signature)),
+        });
+      case 65:
+        return await recoverAddress({ hash: digest, signature });
+      default:
+        return undefined;
+    }
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Verify that an intent was signed by its agentId.
+ * Falls back to ERC-1271 when a public client is given and agentId is a contract.
+ */
+export async function verifyIntentSignature(
+    domain: ERC8001Domain,
+    intent: AgentIntent,
+    signature: Hex,
+    options?: VerifySignatureOptions
+): Promise<boolean> {
+  return verifySigner(
+      intent.agentId,
+      computeIntentDigest(domain, intent),
+      signature,
+      options?.publicClient
+  );
+}
+
+/**
+ * Verify that an attestation was signed by its participant.
+ * Falls back to ERC-1271 when a public client is given and participant is a contract.
+ */
+export async function verifyAcceptance(
+    domain: ERC8001Domain,
+    attestation: AcceptanceAttestation,
+    options?: VerifySignatureOptions
+): Promise<boolean> {
+  return verifySigner(
+      attestation.participant,
+      computeAcceptanceDigest(domain, attestation),
+      attestation.signature,
+      options?.publicClient
+  );
+}
+
+async function verifySigner(
+    expected: Address,
+    digest: Hash,
+    signature: Hex,
+    publicClient?: PublicClient
+): Promise<boolean> {
+  const recovered = await recoverDigestSigner(digest, signature);
+  if (recovered && isAddressEqual(recovered, expected)) {
+    return true;
+  }
+
+  if (!publicClient) {
+    return false;
+  }
+
+  const code = await publicClient.getCode({ address: expected });
+  if (!code || code === '0x') {
+    return false;
+  }
+
+  try {
+    const magicValue = await publicClient.readContract({
+      address: expected,
+      abi: ERC1271_ABI,
+      functionName: 'isValidSignature',
+      args: [digest, signature],
+    });
+    return magicValue.toLowerCase() === ERC1271_MAGIC_VALUE;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import {
+  type Abi,
+  type Hex,
+  ContractFunctionExecutionError,
+  ContractFunctionRevertedError,
+  HttpRequestError,
+  encodeErrorResult,
+  parseAbi,
+} from 'viem';
+
+import {
+  BoundedExecutionRevertError,
+  CoordinationRevertError,
+  ProposalNotFoundError,
+  decodeContractError,
+} from './errors';
+import { AGENT_COORDINATION_ABI, BOUNDED_EXECUTION_ABI } from './abis/AgentCoordination';
+
+const intentHash = `0x${'ab'.repeat(32)}` as const;
+
+/**
+ * The error viem throws from simulateContract / writeContract when `data` reverts.
+ */
+function reverted(abi: Abi, data: Hex): ContractFunctionExecutionError {
+  const functionName = 'acceptCoordination';
+  return new ContractFunctionExecutionError(
+      new ContractFunctionRevertedError({ abi, data, functionName }),
+      { abi, functionName, args: [] }
+  );
+}
+
+describe('decodeContractError', () => {
+  it('maps coordination custom errors to codes', () => {
+    const data = encodeErrorResult({ abi: AGENT_COORDINATION_ABI, errorName: 'ERC8001_DuplicateAcceptance' });
+    const cause = reverted(AGENT_COORDINATION_ABI, data);
+
+    const error = decodeContractError(cause, 'coordination');
+
+    expect(error).toBeInstanceOf(CoordinationRevertError);
+    expect(error).toMatchObject({
+      code: 'DUPLICATE_ACCEPTANCE',
+      errorName: 'ERC8001_DuplicateAcceptance',
+      args: [],
+      cause,
+    });
+  });
+
+  it('maps bounded execution custom errors to codes', () => {
+    const data = encodeErrorResult({ abi: BOUNDED_EXECUTION_ABI, errorName: 'BoundedExecution_OutOfBounds' });
+
+    const error = decodeContractError(reverted(BOUNDED_EXECUTION_ABI, data), 'bounded');
+
+    expect(error).toBeInstanceOf(BoundedExecutionRevertError);
+    expect(error).toMatchObject({ code: 'OUT_OF_BOUNDS', errorName: 'BoundedExecution_OutOfBounds' });
+  });
+
+  it('keeps the reason of errors it has no code for', () => {
+    const abi = parseAbi(['error Error(string)']);
+    const data = encodeErrorResult({ abi, errorName: 'Error', args: ['paused'] });
+
+    const error = decodeContractError(reverted(AGENT_COORDINATION_ABI, data), 'coordination');
+
+    expect(error).toBeInstanceOf(CoordinationRevertError);
+    expect(error).toMatchObject({ code: 'UNKNOWN_REVERT', message: expect.stringContaining('paused') });
+  });
+
+  it('passes through errors that are not reverts', () => {
+    const transport = new HttpRequestError({ url: 'http://localhost', details: 'down' });
+    const own = new ProposalNotFoundError(intentHash, 'missing');
+    const plain = new Error('boom');
+
+    expect(decodeContractError(transport, 'coordination')).toBe(transport);
+    expect(decodeContractError(own, 'coordination')).toBe(own);
+    expect(decodeContractError(plain, 'bounded')).toBe(plain);
+  });
+});
@@ -0,0 +1,365 @@
+/**
+ * @erc8001/sdk - Errors
+ *
+ * Typed errors thrown by the SDK clients.
+ */
+
+import {
+  type Address,
+  type Hash,
+  BaseError,
+  ContractFunctionRevertedError,
+} from 'viem';
+
+import { Status, type SessionAction, type SessionState } from './types';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// ERROR CODES
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Machine-readable error codes.
+ */
+export type ERC8001ErrorCode =
+  // Coordination contract
+  | 'NOT_PROPOSER'
+  | 'INTENT_EXPIRED'
+  | 'ACCEPTANCE_EXPIRED'
+  | 'BAD_SIGNATURE'
+  | 'NOT_PARTICIPANT'
+  | 'DUPLICATE_ACCEPTANCE'
+  | 'PARTICIPANTS_NOT_CANONICAL'
+  | 'NONCE_TOO_LOW'
+  | 'PAYLOAD_HASH_MISMATCH'
+  | 'NOT_READY'
+  // Bounded execution contract
+  | 'POLICY_NOT_FOUND'
+  | 'POLICY_INACTIVE'
+  | 'NOT_AGENT'
+  | 'OUTSIDE_WINDOW'
+  | 'NO_CALLS_REMAINING'
+  | 'OUT_OF_BOUNDS'
+  | 'OVER_SPENDING_LIMIT'
+  // Reverts without a known custom error
+  | 'UNKNOWN_REVERT'
+  // SDK
+  | 'TIMEOUT'
+  | 'COORDINATION_ENDED'
+  | 'EVENT_NOT_FOUND'
+  | 'INVALID_SERIALIZATION'
+  | 'ILLEGAL_ACTION'
+  | 'UNKNOWN_COORDINATION_TYPE'
+  | 'CONDITIONS_NOT_MET'
+  | 'PROPOSAL_NOT_FOUND'
+  | 'PROPOSAL_REJECTED'
+  | 'OVER_TOKEN_LIMIT';
+
+/**
+ * Contract custom error name => SDK error code.
+ */
+const CONTRACT_ERROR_CODES: Record<string, ERC8001ErrorCode> = {
+  ERC8001_NotProposer: 'NOT_PROPOSER',
+  ERC8001_ExpiredIntent: 'INTENT_EXPIRED',
+  ERC8001_ExpiredAcceptance: 'ACCEPTANCE_EXPIRED',
+  ERC8001_BadSignature: 'BAD_SIGNATURE',
+  ERC8001_NotParticipant: 'NOT_PARTICIPANT',
+  ERC8001_DuplicateAcceptance: 'DUPLICATE_ACCEPTANCE',
+  ERC8001_ParticipantsNotCanonical: 'PARTICIPANTS_NOT_CANONICAL',
+  ERC8001_NonceTooLow: 'NONCE_TOO_LOW',
+  ERC8001_PayloadHashMismatch: 'PAYLOAD_HASH_MISMATCH',
+  ERC8001_NotReady: 'NOT_READY',
+  BoundedExecution_PolicyNotFound: 'POLICY_NOT_FOUND',
+  BoundedExecution_PolicyInactive: 'POLICY_INACTIVE',
+  BoundedExecution_NotAgent: 'NOT_AGENT',
+  BoundedExecution_OutsideWindow: 'OUTSIDE_WINDOW',
+  BoundedExecution_NoCallsRemaining: 'NO_CALLS_REMAINING',
+  BoundedExecution_OutOfBounds: 'OUT_OF_BOUNDS',
+  BoundedExecution_OverSpendingLimit: 'OVER_SPENDING_LIMIT',
+};
+
+// ═══════════════════════════════════════════════════════════════════════════
+// ERROR CLASSES
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Base class for all errors thrown by the SDK.
+ */
+export class ERC8001Error extends Error {
+  override name = 'ERC8001Error';
+  readonly code: ERC8001ErrorCode;
+
+  constructor(code: ERC8001ErrorCode, message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.code = code;
+  }
+}
+
+/**
+ * A contract call reverted.
+ * `errorName` and `args` are the decoded custom error, when the ABI knows it.
+ */
+export class ContractRevertError extends ERC8001Error {
+  override name = 'ContractRevertError';
+  readonly errorName?: string;
+  readonly args: readonly unknown[];
+
+  constructor(
+      code: ERC8001ErrorCode,
+      message: string,
+      details: { errorName?: string; args?: readonly unknown[]; cause?: unknown }
+  ) {
+    super(code, message, { cause: details.cause });
+    this.errorName = details.errorName;
+    this.args = details.args ?? [];
+  }
+}
+
+/**
+ * A revert from the AgentCoordination contract.
+ */
+export class CoordinationRevertError extends ContractRevertError {
+  override name = 'CoordinationRevertError';
+}
+
+/**
+ * A revert from the BoundedExecution contract.
+ */
+export class BoundedExecutionRevertError extends ContractRevertError {
+  override name = 'BoundedExecutionRevertError';
+}
+
+/**
+ * An operation did not complete within its deadline.
+ */
+export class TimeoutError extends ERC8001Error {
+  override name = 'TimeoutError';
+
+  constructor(message: string) {
+    super('TIMEOUT', message);
+  }
+}
+
+/**
+ * A coordination reached a terminal status while we were waiting on it.
+ */
+export class CoordinationEndedError extends ERC8001Error {
+  override name = 'CoordinationEndedError';
+  readonly intentHash: Hash;
+  readonly status: Status;
+
+  constructor(intentHash: Hash, status: Status) {
+    super('COORDINATION_ENDED', `Coordination ${intentHash} ended with status: ${Status[status]}`);
+    this.intentHash = intentHash;
+    this.status = status;
+  }
+}
+
+/**
+ * A transaction receipt did not contain an expected event.
+ */
+export class EventNotFoundError extends ERC8001Error {
+  override name = 'EventNotFoundError';
+  readonly eventName: string;
+  readonly txHash: Hash;
+
+  constructor(eventName: string, txHash: Hash) {
+    super('EVENT_NOT_FOUND', `${eventName} event not found in transaction ${txHash}`);
+    this.eventName = eventName;
+    this.txHash = txHash;
+  }
+}
+
+/**
+ * Serialized data failed schema validation.
+ */
+export class SerializationError extends ERC8001Error {
+  override name = 'SerializationError';
+  /** Path of the offending field, e.g. "data.participants[1]" */
+  readonly path: string;
+
+  constructor(path: string, message: string) {
+    super('INVALID_SERIALIZATION', path ? `${path}: ${message}` : message);
+    this.path = path;
+  }
+}
+
+/**
+ * A payload does not belong to the intent it is executed against.
+ * Uses the same code as the contract's ERC8001_PayloadHashMismatch.
+ */
+export class PayloadMismatchError extends ERC8001Error {
+  override name = 'PayloadMismatchError';
+  readonly intentHash: Hash;
+
+  constructor(intentHash: Hash, reason: string) {
+    super('PAYLOAD_HASH_MISMATCH', `Payload does not match intent ${intentHash}: ${reason}`);
+    this.intentHash = intentHash;
+  }
+}
+
+/**
+ * The proposal behind an intent hash could not be recovered from chain.
+ */
+export class ProposalNotFoundError extends ERC8001Error {
+  override name = 'ProposalNotFoundError';
+  readonly intentHash: Hash;
+
+  constructor(intentHash: Hash, reason: string) {
+    super('PROPOSAL_NOT_FOUND', `Proposal for ${intentHash} not found: ${reason}`);
+    this.intentHash = intentHash;
+  }
+}
+
+/**
+ * An inspect callback refused to accept a proposal.
+ */
+export class ProposalRejectedError extends ERC8001Error {
+  override name = 'ProposalRejectedError';
+  readonly intentHash: Hash;
+
+  constructor(intentHash: Hash) {
+    super('PROPOSAL_REJECTED', `Proposal ${intentHash} rejected on inspection`);
+    this.intentHash = intentHash;
+  }
+}
+
+/**
+ * A signature did not verify against its claimed signer.
+ * Uses the same code as the contract's ERC8001_BadSignature.
+ */
+export class SignatureVerificationError extends ERC8001Error {
+  override name = 'SignatureVerificationError';
+  readonly signer: Address;
+
+  constructor(signer: Address, what: string) {
+    super('BAD_SIGNATURE', `Invalid ${what} signature for ${signer}`);
+    this.signer = signer;
+  }
+}
+
+/**
+ * Some recorded acceptances expired before execution.
+ * Uses the same code as the contract's ERC8001_ExpiredAcceptance.
+ */
+export class StaleAcceptanceError extends ERC8001Error {
+  override name = 'StaleAcceptanceError';
+  readonly intentHash: Hash;
+  readonly participants: Address[];
+
+  constructor(intentHash: Hash, participants: Address[]) {
+    super(
+        'ACCEPTANCE_EXPIRED',
+        `Acceptances for ${intentHash} have expired: ${participants.join(', ')}. ` +
+        'Accepted participants cannot accept again; cancel and propose a new intent'
+    );
+    this.intentHash = intentHash;
+    this.participants = participants;
+  }
+}
+
+/**
+ * An action is not allowed in the session's current state.
+ * Thrown before any RPC call is made.
+ */
+export class IllegalActionError extends ERC8001Error {
+  override name = 'IllegalActionError';
+  readonly action: SessionAction;
+  readonly state: SessionState;
+
+  constructor(action: SessionAction, state: SessionState, reason: string) {
+    super('ILLEGAL_ACTION', `Cannot ${action} in state ${state}: ${reason}`);
+    this.action = action;
+    this.state = state;
+  }
+}
+
+/**
+ * A coordination type that is not in the registry.
+ */
+export class UnknownCoordinationTypeError extends ERC8001Error {
+  override name = 'UnknownCoordinationTypeError';
+  readonly type: string;
+
+  constructor(type: string) {
+    super('UNKNOWN_COORDINATION_TYPE', `Coordination type ${type} is not registered`);
+    this.type = type;
+  }
+}
+
+/**
+ * A participant's acceptance conditions do not hold.
+ */
+export class ConditionsNotMetError extends ERC8001Error {
+  override name = 'ConditionsNotMetError';
+  readonly intentHash: Hash;
+  readonly failures: Array<{ participant: Address; reason: string }>;
+
+  constructor(intentHash: Hash, failures: Array<{ participant: Address; reason: string }>) {
+    super(
+        'CONDITIONS_NOT_MET',
+        `Conditions not met for ${intentHash}: ${failures.map(f => `${f.participant} (${f.reason})`).join(', ')}`
+    );
+    this.intentHash = intentHash;
+    this.failures = failures;
+  }
+}
+
+/**
+ * An ERC-20 call would exceed a policy's client-side token limit.
+ * Thrown before any transaction is sent.
+ */
+export class TokenLimitExceededError extends ERC8001Error {
+  override name = 'TokenLimitExceededError';
+  readonly policyId: Hash;
+  readonly token: Address;
+  readonly requested: bigint;
+  readonly remaining: bigint;
+
+  constructor(policyId: Hash, token: Address, requested: bigint, remaining: bigint) {
+    super(
+        'OVER_TOKEN_LIMIT',
+        `Spending ${requested} of ${token} exceeds remaining budget ${remaining} for policy ${policyId}`
+    );
+    this.policyId = policyId;
+    this.token = token;
+    this.requested = requested;
+    this.remaining = remaining;
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// DECODING
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Convert a viem contract error into a typed SDK error.
+ * Errors that are not contract reverts are returned unchanged.
+ *
+ * @param error The error thrown by viem
+ * @param contract Which contract was called
+ */
+export function decodeContractError(
+    error: unknown,
+    contract: 'coordination' | 'bounded'
+): unknown {
+  if (error instanceof ERC8001Error || !(error instanceof BaseError)) {
+    return error;
+  }
+
+  const revert = error.walk(e => e instanceof ContractFunctionRevertedError);
+  if (!(revert instanceof ContractFunctionRevertedError)) {
+    return error;
+  }
+
+  const errorName = revert.data?.errorName;
+  const code = (errorName && CONTRACT_ERROR_CODES[errorName]) || 'UNKNOWN_REVERT';
+  // Error(string) and Panic(uint256) decode with a reason; custom errors only by name
+  const message = revert.reason
+      ? `Contract reverted: ${revert.reason}`
+      : `Contract reverted${errorName ? ` with ${errorName}` : ''}`;
+  const details = { errorName, args: revert.data?.args, cause: error };
+
+  return contract === 'coordination'
+      ? new CoordinationRevertError(code, message, details)
+      : new BoundedExecutionRevertError(code, message, details);
+}
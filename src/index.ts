@@ -22,6 +22,35 @@
 
 export { CoordinationClient } from './coordination';
 export { BoundedClient } from './bounded';
+export { AcceptanceCollector } from './collector';
+export { CoordinationSession } from './session';
+export { Sweeper } from './sweeper';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// ERRORS
+// ═══════════════════════════════════════════════════════════════════════════
+
+export {
+  ERC8001Error,
+  ContractRevertError,
+  CoordinationRevertError,
+  BoundedExecutionRevertError,
+  TimeoutError,
+  CoordinationEndedError,
+  EventNotFoundError,
+  SerializationError,
+  SignatureVerificationError,
+  IllegalActionError,
+  UnknownCoordinationTypeError,
+  ConditionsNotMetError,
+  TokenLimitExceededError,
+  PayloadMismatchError,
+  ProposalNotFoundError,
+  ProposalRejectedError,
+  StaleAcceptanceError,
+  decodeContractError,
+  type ERC8001ErrorCode,
+} from './errors';
 
 // ═══════════════════════════════════════════════════════════════════════════
 // TYPES
@@ -40,6 +69,21 @@ export {
   // Bounded execution
   type Policy,
   type ActionBound,
+  type BoundedExecutionResult,
+  type BoundsTreeOptions,
+  type BoundsTreeDump,
+  type BoundsMultiProof,
+  type PolicyBound,
+  type PolicyVerdict,
+  type ActionMatch,
+  type ArgumentConstraint,
+  type ArgumentConstraintKind,
+  type ArgumentsReport,
+  type ConstraintValue,
+  type PolicyAllowOptions,
+  type TokenSpend,
+  type TokenBudget,
+  type TokenUsage,
   
   // EIP-712
   type ERC8001Domain,
@@ -50,7 +94,60 @@ export {
   type CoordinationAcceptedEvent,
   type CoordinationExecutedEvent,
   type CoordinationCancelledEvent,
+  type PolicyRegisteredEvent,
+  type SpendingUpdatedEvent,
+  type BoundedExecutionSuccessEvent,
+  type BoundedExecutionFailedEvent,
+  type CoordinationEventName,
+  type CoordinationEvent,
+  type EventLog,
+  type EventLogMeta,
+  type GetEventsOptions,
+  type LogSearchOptions,
+  type WatchEventsOptions,
+  type WaitForReadyOptions,
+  type WriteOptions,
+  type SubmitAcceptancesOptions,
+  type AcceptOptions,
+  type Proposal,
+  type ExecuteOptions,
+  type ExecutableCheck,
+  type AcceptanceExpiry,
+
+  // Coordination type registry
+  type CoordinationTypeDefinition,
+  type TypedPayload,
+  type DecodedPayload,
+
+  // Payload schemas
+  type PayloadLeg,
+  type TradeData,
+  type SwapData,
+  type PaymentData,
+
+  // Conditions
+  type Condition,
+  type ConditionKind,
+  type ConditionResult,
+  type ConditionsReport,
+  type AcceptanceConditionsReport,
   
+  // Storage
+  type StoredIntent,
+
+  // Sessions
+  type SessionState,
+  type SessionAction,
+  type SessionTransition,
+  type TransactionState,
+
+  // Sweeper
+  type SweepReport,
+
+  // Serialization
+  type Envelope,
+  type EnvelopeKind,
+
   // Builder options
   type CreateIntentOptions,
   type CreateAttestationOptions,
@@ -86,6 +183,12 @@ export {
   // Digests
   computeIntentDigest,
   computeAcceptanceDigest,
+
+  // Verification
+  recoverDigestSigner,
+  verifyIntentSignature,
+  verifyAcceptance,
+  type VerifySignatureOptions,
 } from './eip712';
 
 // ═══════════════════════════════════════════════════════════════════════════
@@ -110,12 +213,150 @@ export {
   computeActionLeaf,
   computeBoundsRoot,
   generateProof,
+  LEGACY_BOUNDS_TREE,
   
   // Validation
   validateIntent,
   validateAttestation,
 } from './utils';
 
+// ═══════════════════════════════════════════════════════════════════════════
+// COORDINATION TYPE REGISTRY
+// ═══════════════════════════════════════════════════════════════════════════
+
+export {
+  CoordinationTypeRegistry,
+  CoordinationTypeCodec,
+  defaultRegistry,
+  isTypedPayload,
+} from './registry';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// PAYLOAD SCHEMAS
+// ═══════════════════════════════════════════════════════════════════════════
+
+export {
+  // Codecs
+  TradeCodec,
+  SwapCodec,
+  PaymentCodec,
+
+  // Builders
+  tradePayload,
+  swapPayload,
+  paymentPayload,
+  transferLegs,
+  canonicalizeLegs,
+
+  // Decoders
+  decodeTrade,
+  decodeSwap,
+  decodePayment,
+
+  // Validation
+  validateLegs,
+  validateTrade,
+  validateSwap,
+  validatePayment,
+} from './schemas';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// CONDITIONS
+// ═══════════════════════════════════════════════════════════════════════════
+
+export {
+  CONDITIONS_VERSION,
+  encodeConditions,
+  decodeConditions,
+  computeConditionsHash,
+  checkConditions,
+  type ConditionContext,
+} from './conditions';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// MERKLE TREES
+// ═══════════════════════════════════════════════════════════════════════════
+
+export { BoundsTree } from './merkle';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// ARGUMENT CONSTRAINTS
+// ═══════════════════════════════════════════════════════════════════════════
+
+export {
+  CONSTRAINTS_VERSION,
+  encodeConstraints,
+  decodeConstraints,
+  computeConstraintsHash,
+  checkArguments,
+} from './constraints';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// POLICY CHECKS
+// ═══════════════════════════════════════════════════════════════════════════
+
+export {
+  checkActionAgainstPolicy,
+  checkPolicyState,
+  matchAction,
+} from './policy';
+
+export { PolicyBuilder } from './builder';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TOKEN BUDGETS
+// ═══════════════════════════════════════════════════════════════════════════
+
+export {
+  decodeTokenSpend,
+  createTokenBudget,
+  remainingTokenBudget,
+  addTokenSpending,
+  getTokenAllowance,
+  tokenSpendCost,
+  applyTokenSpend,
+  getTokenUsage,
+} from './tokens';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// STORAGE
+// ═══════════════════════════════════════════════════════════════════════════
+
+export {
+  KeyValueStorage,
+  MemoryStorage,
+  FileStorage,
+  SqliteStorage,
+  type Storage,
+  type SqliteDatabase,
+} from './storage';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// NONCES
+// ═══════════════════════════════════════════════════════════════════════════
+
+export {
+  NonceManager,
+  MemoryNonceStore,
+  ZeroNonceStrategy,
+  MonotonicNonceStrategy,
+  ContractNonceStrategy,
+  type NonceStore,
+  type AcceptanceNonceStrategy,
+} from './nonces';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// SERIALIZATION
+// ═══════════════════════════════════════════════════════════════════════════
+
+export {
+  SERIALIZATION_VERSION,
+  serialize,
+  deserialize,
+  encodeEnvelope,
+  decodeEnvelope,
+} from './serialization';
+
 // ═══════════════════════════════════════════════════════════════════════════
 // ABIS
 // ═══════════════════════════════════════════════════════════════════════════
@@ -123,4 +364,8 @@ export {
 export {
   AGENT_COORDINATION_ABI,
   BOUNDED_EXECUTION_ABI,
+  MULTICALL3_ABI,
+  ERC1271_ABI,
+  ACCEPTANCE_NONCE_ABI,
+  AGGREGATOR_V3_ABI,
 } from './abis/AgentCoordination';
@@ -0,0 +1,188 @@
+import { describe, expect, it } from 'vitest';
+import {
+  type Hash,
+  concat,
+  encodeAbiParameters,
+  encodePacked,
+  keccak256,
+} from 'viem';
+
+import type { ActionBound } from './types';
+import { BoundsTree } from './merkle';
+import { LEGACY_BOUNDS_TREE, computeActionLeaf, computeBoundsRoot, generateProof } from './utils';
+import { SerializationError } from './errors';
+
+const target = '0x000000000000000000000000000000000000dEaD';
+const other = '0x000000000000000000000000000000000000bEEF';
+
+const actions: ActionBound[] = [
+  { target, selector: '0xa9059cbb' },
+  { target, selector: '0x095ea7b3' },
+  { target: other, selector: '0x23b872dd' },
+];
+
+// Reference implementations of OpenZeppelin's StandardMerkleTree and MerkleProof
+
+function standardLeaf(action: ActionBound): Hash {
+  return keccak256(keccak256(encodeAbiParameters(
+      [{ type: 'address' }, { type: 'bytes4' }],
+      [action.target, action.selector]
+  )));
+}
+
+function commutativeHash(a: Hash, b: Hash): Hash {
+  return keccak256(BigInt(a) < BigInt(b) ? concat([a, b]) : concat([b, a]));
+}
+
+function standardRoot(leaves: Hash[]): Hash {
+  const sorted = [...leaves].sort((a, b) => (BigInt(a) < BigInt(b) ? -1 : 1));
+  const tree: Hash[] = new Array(2 * sorted.length - 1);
+  sorted.forEach((leaf, i) => { tree[tree.length - 1 - i] = leaf; });
+  for (let i = tree.length - 1 - sorted.length; i >= 0; i--) {
+    tree[i] = commutativeHash(tree[2 * i + 1], tree[2 * i + 2]);
+  }
+  return tree[0];
+}
+
+function processProof(leaf: Hash, proof: Hash[]): Hash {
+  return proof.reduce(commutativeHash, leaf);
+}
+
+function processMultiProof(leaves: Hash[], proof: Hash[], proofFlags: boolean[]): Hash {
+  const hashes: Hash[] = [];
+  let leafPos = 0;
+  let hashPos = 0;
+  let proofPos = 0;
+  const next = () => (leafPos < leaves.length ? leaves[leafPos++] : hashes[hashPos++]);
+
+  for (const flag of proofFlags) {
+    const a = next();
+    const b = flag ? next() : proof[proofPos++];
+    hashes.push(commutativeHash(a, b));
+  }
+
+  if (proofFlags.length > 0) return hashes[hashes.length - 1];
+  return leaves.length > 0 ? leaves[0] : proof[0];
+}
+
+describe('BoundsTree (standard)', () => {
+  const tree = BoundsTree.of(actions);
+
+  it('matches StandardMerkleTree leaves and root', () => {
+    expect(tree.leafHash(actions[0])).toBe(standardLeaf(actions[0]));
+    expect(tree.root).toBe(standardRoot(actions.map(standardLeaf)));
+  });
+
+  it('produces proofs MerkleProof.verify accepts', () => {
+    for (const action of actions) {
+      const proof = tree.getProof(action);
+      expect(processProof(standardLeaf(action), proof)).toBe(tree.root);
+      expect(tree.verifyProof(action, proof)).toBe(true);
+    }
+  });
+
+  it('rejects a proof for an action outside the tree', () => {
+    const outsider: ActionBound = { target: other, selector: '0xa9059cbb' };
+    expect(tree.has(outsider)).toBe(false);
+    expect(tree.verifyProof(outsider, tree.getProof(0))).toBe(false);
+  });
+
+  it('produces multi-proofs MerkleProof.multiProofVerify accepts', () => {
+    const multi = tree.getMultiProof([0, 2]);
+    const root = processMultiProof(multi.leaves.map(standardLeaf), multi.proof, multi.proofFlags);
+
+    expect(root).toBe(tree.root);
+    expect(tree.verifyMultiProof(multi)).toBe(true);
+  });
+
+  it('dumps the standard-v1 format and loads it back', () => {
+    const dump = tree.dump();
+    expect(dump.format).toBe('standard-v1');
+    expect(dump.leafEncoding).toEqual(['address', 'bytes4']);
+
+    const loaded = BoundsTree.load(JSON.parse(JSON.stringify(dump)));
+    expect(loaded.root).toBe(tree.root);
+    expect(loaded.actions).toEqual(tree.actions);
+  });
+
+  it('refuses a dump whose tree does not match its values', () => {
+    const dump = tree.dump();
+    dump.tree[0] = `0x${'11'.repeat(32)}`;
+    expect(() => BoundsTree.load(dump)).toThrow(SerializationError);
+  });
+});
+
+describe('BoundsTree (legacy)', () => {
+  const tree = BoundsTree.of(actions, LEGACY_BOUNDS_TREE);
+
+  // Produced by the computeBoundsRoot and generateProof that predate BoundsTree
+  const legacyRoot = '0x7c2b8badab2f0f353759973db9fac6965b6f2d6c29e82d1c30b783bed0dec4ee';
+  const legacyProofs = [
+    [
+      '0xb291af7c3888ab4bf572b806750121b23e55893ae3a8cee3328fdff07c9fa399',
+      '0x283bf0de1b6f8e3760008e2444db60e9b25a2ca35f7a495f36cccddc0847fec5',
+    ],
+    [
+      '0x8a7e3709a21e57abc46b36cf2f50f4468aa0a35f4e80fb51aef2c6bb576d3f0f',
+      '0x283bf0de1b6f8e3760008e2444db60e9b25a2ca35f7a495f36cccddc0847fec5',
+    ],
+    [
+      '0xb1d675b13ff1763ce7a99771295f1b046bffe985b0570f293fe8ad73e134fb2c',
+      '0x5521603d7fa074bc7ec0ab5707c523ff49adccb8c62f52241e5baf38ff801626',
+    ],
+  ];
+
+  it('reproduces the original root, leaves and proofs', () => {
+    expect(tree.root).toBe(legacyRoot);
+    expect(computeBoundsRoot(actions)).toBe(legacyRoot);
+    expect(tree.leafHash(actions[1])).toBe(
+        keccak256(encodePacked(['address', 'bytes4'], [actions[1].target, actions[1].selector]))
+    );
+    expect(computeActionLeaf(actions[1])).toBe(tree.leafHash(actions[1]));
+    actions.forEach((_, i) => {
+      expect(tree.getProof(i)).toEqual(legacyProofs[i]);
+      expect(generateProof(actions, i)).toEqual(legacyProofs[i]);
+    });
+  });
+
+  it('uses the leaf as the root of a single action', () => {
+    expect(computeBoundsRoot([actions[0]])).toBe(computeActionLeaf(actions[0]));
+  });
+
+  it('dumps a distinct format that standard-v1 loading refuses', () => {
+    const dump = tree.dump();
+    expect(dump.format).toBe('erc8001-bounds-v1');
+    expect(BoundsTree.load(dump).root).toBe(tree.root);
+    expect(() => BoundsTree.load({ ...dump, format: 'standard-v1' })).toThrow(SerializationError);
+  });
+});
+
+describe('BoundsTree constraints', () => {
+  const constrained: ActionBound = {
+    target,
+    selector: '0xa9059cbb',
+    constraints: [{ kind: 'max', arg: 1, value: 1_000n }],
+  };
+
+  it('keeps constraints out of leaves by default', () => {
+    const tree = BoundsTree.of([constrained, actions[1]]);
+
+    expect(tree.leafHash(constrained)).toBe(standardLeaf(constrained));
+    expect(tree.root).toBe(BoundsTree.of([actions[0], actions[1]]).root);
+  });
+
+  it('round-trips constraints through a dump', () => {
+    const tree = BoundsTree.of([constrained, actions[1]]);
+    const loaded = BoundsTree.load(tree.dump());
+
+    expect(loaded.actionsFor(target, '0xa9059cbb')).toEqual([constrained]);
+  });
+
+  it('hashes constraints into leaves when asked to', () => {
+    const tree = BoundsTree.of([constrained], { constraintsInLeaf: true });
+
+    expect(tree.root).not.toBe(standardLeaf(constrained));
+    expect(tree.dump().format).toBe('erc8001-bounds-v1');
+    expect(BoundsTree.load(tree.dump()).root).toBe(tree.root);
+  });
+});
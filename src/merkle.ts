@@ -0,0 +1,465 @@
+/**
+ * @erc8001/sdk - Bounds Merkle Tree
+ *
+ * Merkle tree over a policy's allowed actions. With the default options
+ * it is byte-for-byte compatible with OpenZeppelin's StandardMerkleTree
+ * and MerkleProof (including multi-proofs); the legacy options reproduce
+ * computeBoundsRoot/generateProof. Leaves are target + selector, which is
+ * what the deployed contract hashes; argument constraints are enforced
+ * client-side unless constraintsInLeaf opts into appending their hash.
+ */
+
+import {
+  type Address,
+  type Hash,
+  type Hex,
+  keccak256,
+  encodePacked,
+  encodeAbiParameters,
+  concat,
+  getAddress,
+  isAddress,
+} from 'viem';
+
+import type {
+  ActionBound,
+  BoundsMultiProof,
+  BoundsTreeDump,
+  BoundsTreeOptions,
+} from './types';
+
+import { SerializationError } from './errors';
+
+import { computeConstraintsHash, decodeConstraints, encodeConstraints } from './constraints';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TREE CLASS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Merkle tree of ActionBounds.
+ *
+ * The tree is stored as an array in heap order: node i has children
+ * 2i+1 and 2i+2, and the root is node 0.
+ *
+ * @example
+ * ```ts
+ * const tree = BoundsTree.of(actions);
+ *
+ * const proof = tree.getProof(actions[0]);
+ * BoundsTree.verify(tree.root, tree.leafHash(actions[0]), proof); // true
+ *
+ * fs.writeFileSync('bounds.json', JSON.stringify(tree.dump()));
+ * const same = BoundsTree.load(JSON.parse(fs.readFileSync('bounds.json', 'utf8')));
+ * ```
+ */
+export class BoundsTree {
+  readonly leafHashMode: 'double' | 'single';
+  readonly layout: 'standard' | 'legacy';
+  readonly constraintsInLeaf: boolean;
+
+  private readonly tree: Hash[];
+  private readonly values: Array<{ value: ActionBound; treeIndex: number }>;
+
+  private constructor(
+      tree: Hash[],
+      values: Array<{ value: ActionBound; treeIndex: number }>,
+      options: Required<BoundsTreeOptions>
+  ) {
+    this.tree = tree;
+    this.values = values;
+    this.leafHashMode = options.leafHash;
+    this.layout = options.layout;
+    this.constraintsInLeaf = options.constraintsInLeaf;
+  }
+
+  /**
+   * Build a tree from actions.
+   */
+  static of(actions: ActionBound[], options?: BoundsTreeOptions): BoundsTree {
+    if (actions.length === 0) {
+      throw new Error('At least one action required');
+    }
+
+    const resolved: Required<BoundsTreeOptions> = {
+      leafHash: options?.leafHash ?? 'double',
+      layout: options?.layout ?? 'standard',
+      constraintsInLeaf: options?.constraintsInLeaf ?? false,
+    };
+
+    const hashed = actions.map((value, valueIndex) => ({
+      value: normalizeAction(value),
+      valueIndex,
+      hash: hashLeaf(value, resolved.leafHash, resolved.constraintsInLeaf),
+    }));
+
+    const values: Array<{ value: ActionBound; treeIndex: number }> = new Array(actions.length);
+    let tree: Hash[];
+
+    if (resolved.layout === 'standard') {
+      // Complete tree, leaves sorted by hash and stored from the end
+      hashed.sort((a, b) => compareHashes(a.hash, b.hash));
+      tree = new Array(2 * hashed.length - 1);
+      hashed.forEach((leaf, i) => {
+        const treeIndex = tree.length - 1 - i;
+        tree[treeIndex] = leaf.hash;
+        values[leaf.valueIndex] = { value: leaf.value, treeIndex };
+      });
+    } else {
+      // Perfect tree, leaves in order, padded by repeating the last
+      let width = 1;
+      while (width < hashed.length) width *= 2;
+      tree = new Array(2 * width - 1);
+      for (let i = 0; i < width; i++) {
+        tree[width - 1 + i] = hashed[Math.min(i, hashed.length - 1)].hash;
+      }
+      hashed.forEach((leaf, i) => {
+        values[leaf.valueIndex] = { value: leaf.value, treeIndex: width - 1 + i };
+      });
+    }
+
+    const firstLeaf = tree.length - Math.ceil(tree.length / 2);
+    for (let i = firstLeaf - 1; i >= 0; i--) {
+      tree[i] = hashPair(tree[leftChild(i)], tree[rightChild(i)]);
+    }
+
+    return new BoundsTree(tree, values, resolved);
+  }
+
+  /**
+   * Restore a tree from dump(). Throws SerializationError if the dump
+   * is malformed, its options don't fit its format, or its tree doesn't
+   * match its values.
+   */
+  static load(dump: BoundsTreeDump): BoundsTree {
+    const options = loadOptions(dump);
+    if (!Array.isArray(dump.values) || !Array.isArray(dump.tree)) {
+      throw new SerializationError('', 'Expected tree and values arrays');
+    }
+
+    const actions = dump.values.map(({ value, constraints }, i): ActionBound => {
+      const [target, selector] = value ?? [];
+      if (typeof target !== 'string' || !isAddress(target, { strict: false })) {
+        throw new SerializationError(`values[${i}].value[0]`, 'Expected an address');
+      }
+      if (typeof selector !== 'string' || !/^0x[0-9a-fA-F]{8}$/.test(selector)) {
+        throw new SerializationError(`values[${i}].value[1]`, 'Expected a bytes4 selector');
+      }
+      if (constraints === undefined) {
+        return { target, selector: selector as Hex };
+      }
+      if (typeof constraints !== 'string') {
+        throw new SerializationError(`values[${i}].constraints`, 'Expected encoded constraints');
+      }
+      return { target, selector: selector as Hex, constraints: decodeConstraints(constraints) };
+    });
+
+    const tree = BoundsTree.of(actions, options);
+
+    const matches = dump.tree.length === tree.tree.length &&
+        dump.tree.every((node, i) => node.toLowerCase() === tree.tree[i]) &&
+        dump.values.every((v, i) => v.treeIndex === tree.values[i].treeIndex);
+    if (!matches) {
+      throw new SerializationError('tree', 'Tree does not match its values');
+    }
+
+    return tree;
+  }
+
+  /**
+   * Verify a single-leaf proof, as MerkleProof.verify.
+   */
+  static verify(root: Hash, leaf: Hash, proof: Hash[]): boolean {
+    return proof.reduce(hashPair, leaf).toLowerCase() === root.toLowerCase();
+  }
+
+  /**
+   * Verify a multi-proof, as MerkleProof.multiProofVerify.
+   */
+  static verifyMultiProof(root: Hash, leaves: Hash[], proof: Hash[], proofFlags: boolean[]): boolean {
+    if (leaves.length + proof.length !== proofFlags.length + 1) return false;
+    if (proof.length < proofFlags.filter(flag => !flag).length) return false;
+
+    const stack = [...leaves];
+    const siblings = [...proof];
+    for (const flag of proofFlags) {
+      const a = stack.shift();
+      const b = flag ? stack.shift() : siblings.shift();
+      if (a === undefined || b === undefined) return false;
+      stack.push(hashPair(a, b));
+    }
+
+    const computed = stack.pop() ?? siblings.shift();
+    return computed !== undefined && computed.toLowerCase() === root.toLowerCase();
+  }
+
+  get root(): Hash {
+    return this.tree[0];
+  }
+
+  get length(): number {
+    return this.values.length;
+  }
+
+  /**
+   * Actions in the order they were given.
+   */
+  get actions(): ActionBound[] {
+    return this.values.map(v => ({ ...v.value }));
+  }
+
+  /**
+   * Actions for a target and selector, constrained or not.
+   */
+  actionsFor(target: Address, selector: Hex): ActionBound[] {
+    const checksummed = getAddress(target);
+    const lower = selector.toLowerCase();
+    return this.values
+        .filter(v => v.value.target === checksummed && v.value.selector === lower)
+        .map(v => ({ ...v.value }));
+  }
+
+  /**
+   * Leaf hash of an action under this tree's leaf encoding.
+   */
+  leafHash(action: ActionBound): Hash {
+    return hashLeaf(action, this.leafHashMode, this.constraintsInLeaf);
+  }
+
+  /**
+   * Index of an action among the tree's actions, or -1.
+   * Constraints must match too.
+   */
+  indexOf(action: ActionBound): number {
+    const leaf = this.leafHash(action);
+    const constraintsHash = computeConstraintsHash(action.constraints ?? []);
+    return this.values.findIndex(v => this.tree[v.treeIndex] === leaf &&
+        computeConstraintsHash(v.value.constraints ?? []) === constraintsHash);
+  }
+
+  has(action: ActionBound): boolean {
+    return this.indexOf(action) >= 0;
+  }
+
+  /**
+   * Proof for one action, by value or by index.
+   */
+  getProof(action: ActionBound | number): Hash[] {
+    let index = this.valueIndex(action);
+    index = this.values[index].treeIndex;
+
+    const proof: Hash[] = [];
+    while (index > 0) {
+      proof.push(this.tree[siblingIndex(index)]);
+      index = parentIndex(index);
+    }
+    return proof;
+  }
+
+  /**
+   * Proof for several actions at once, by value or by index.
+   */
+  getMultiProof(actions: Array<ActionBound | number>): BoundsMultiProof {
+    const indices = actions
+        .map(a => this.values[this.valueIndex(a)].treeIndex)
+        .sort((a, b) => b - a);
+
+    if (indices.some((index, i) => i > 0 && index === indices[i - 1])) {
+      throw new Error('Cannot prove the same leaf twice');
+    }
+
+    const stack = [...indices];
+    const proof: Hash[] = [];
+    const proofFlags: boolean[] = [];
+
+    while (stack.length > 0 && stack[0] > 0) {
+      const j = stack.shift() as number;
+      const sibling = siblingIndex(j);
+
+      if (sibling === stack[0]) {
+        proofFlags.push(true);
+        stack.shift();
+      } else {
+        proofFlags.push(false);
+        proof.push(this.tree[sibling]);
+      }
+      stack.push(parentIndex(j));
+    }
+
+    if (indices.length === 0) {
+      proof.push(this.tree[0]);
+    }
+
+    const byTreeIndex = new Map(this.values.map(v => [v.treeIndex, v.value]));
+    return {
+      leaves: indices.map(treeIndex => ({ ...byTreeIndex.get(treeIndex) as ActionBound })),
+      proof,
+      proofFlags,
+    };
+  }
+
+  /**
+   * Verify a proof for an action against this tree's root.
+   */
+  verifyProof(action: ActionBound, proof: Hash[]): boolean {
+    return BoundsTree.verify(this.root, this.leafHash(action), proof);
+  }
+
+  /**
+   * Verify a multi-proof against this tree's root.
+   */
+  verifyMultiProof(multiProof: BoundsMultiProof): boolean {
+    return BoundsTree.verifyMultiProof(
+        this.root,
+        multiProof.leaves.map(action => this.leafHash(action)),
+        multiProof.proof,
+        multiProof.proofFlags
+    );
+  }
+
+  /**
+   * JSON-safe representation, restorable with BoundsTree.load().
+   * Trees with the default options dump as OpenZeppelin's 'standard-v1';
+   * any other options dump as 'erc8001-bounds-v1', which OpenZeppelin
+   * can't load.
+   */
+  dump(): BoundsTreeDump {
+    const standard = this.leafHashMode === 'double' && this.layout === 'standard' && !this.constraintsInLeaf;
+    const dump: BoundsTreeDump = {
+      format: standard ? 'standard-v1' : 'erc8001-bounds-v1',
+      leafEncoding: ['address', 'bytes4'],
+      leafHash: this.leafHashMode,
+      layout: this.layout,
+      tree: [...this.tree],
+      values: this.values.map(v => v.value.constraints
+          ? {
+            value: [v.value.target, v.value.selector],
+            treeIndex: v.treeIndex,
+            constraints: encodeConstraints(v.value.constraints),
+          }
+          : { value: [v.value.target, v.value.selector], treeIndex: v.treeIndex }
+      ),
+    };
+    if (this.constraintsInLeaf) {
+      dump.constraintsInLeaf = true;
+    }
+    return dump;
+  }
+
+  private valueIndex(action: ActionBound | number): number {
+    const index = typeof action === 'number' ? action : this.indexOf(action);
+    if (!Number.isInteger(index) || index < 0 || index >= this.values.length) {
+      throw new Error(typeof action === 'number'
+          ? 'Index out of bounds'
+          : `Action ${action.target}:${action.selector} is not in the tree`);
+    }
+    return index;
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// HASHING
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Tree options a dump was made with, checked against its format.
+ */
+function loadOptions(dump: BoundsTreeDump): Required<BoundsTreeOptions> {
+  const leafHash = dump.leafHash ?? 'double';
+  const layout = dump.layout ?? 'standard';
+  const constraintsInLeaf = dump.constraintsInLeaf ?? false;
+
+  if (leafHash !== 'double' && leafHash !== 'single') {
+    throw new SerializationError('leafHash', `Unknown leaf hash ${String(leafHash)}`);
+  }
+  if (layout !== 'standard' && layout !== 'legacy') {
+    throw new SerializationError('layout', `Unknown layout ${String(layout)}`);
+  }
+
+  switch (dump.format) {
+    case 'standard-v1':
+      if (leafHash !== 'double' || layout !== 'standard' || constraintsInLeaf) {
+        throw new SerializationError('format', 'standard-v1 dumps only hold trees with the default options');
+      }
+      break;
+    case 'erc8001-bounds-v1':
+      break;
+    default:
+      throw new SerializationError('format', `Unsupported format ${String(dump.format)}`);
+  }
+
+  return { leafHash, layout, constraintsInLeaf };
+}
+
+function hashLeaf(action: ActionBound, mode: 'double' | 'single', constraintsInLeaf: boolean): Hash {
+  if (constraintsInLeaf && action.constraints?.length) {
+    const constraintsHash = computeConstraintsHash(action.constraints);
+    if (mode === 'single') {
+      return keccak256(encodePacked(
+          ['address', 'bytes4', 'bytes32'],
+          [action.target, action.selector, constraintsHash]
+      ));
+    }
+    return keccak256(keccak256(encodeAbiParameters(
+        [{ type: 'address' }, { type: 'bytes4' }, { type: 'bytes32' }],
+        [action.target, action.selector, constraintsHash]
+    )));
+  }
+
+  if (mode === 'single') {
+    return keccak256(encodePacked(['address', 'bytes4'], [action.target, action.selector]));
+  }
+  return keccak256(keccak256(
+      encodeAbiParameters([{ type: 'address' }, { type: 'bytes4' }], [action.target, action.selector])
+  ));
+}
+
+/**
+ * Checksum the target and lowercase the selector. Empty constraints
+ * are dropped, since they hash like no constraints.
+ */
+function normalizeAction(action: ActionBound): ActionBound {
+  const normalized: ActionBound = {
+    target: getAddress(action.target),
+    selector: action.selector.toLowerCase() as Hex,
+  };
+  if (action.constraints?.length) {
+    normalized.constraints = action.constraints;
+  }
+  return normalized;
+}
+
+/**
+ * Hash a pair of nodes in sorted order, as OpenZeppelin's commutative hash.
+ */
+function hashPair(a: Hash, b: Hash): Hash {
+  return keccak256(concat(compareHashes(a, b) <= 0 ? [a, b] : [b, a]));
+}
+
+function compareHashes(a: Hash, b: Hash): number {
+  const aNum = BigInt(a);
+  const bNum = BigInt(b);
+  if (aNum < bNum) return -1;
+  if (aNum > bNum) return 1;
+  return 0;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// HEAP INDEXING
+// ═══════════════════════════════════════════════════════════════════════════
+
+function leftChild(i: number): number {
+  return 2 * i + 1;
+}
+
+function rightChild(i: number): number {
+  return 2 * i + 2;
+}
+
+function parentIndex(i: number): number {
+  return Math.floor((i - 1) / 2);
+}
+
+function siblingIndex(i: number): number {
+  return i % 2 === 1 ? i + 1 : i - 1;
+}
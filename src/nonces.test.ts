@@ -0,0 +1,142 @@
+import { describe, expect, it } from 'vitest';
+import {
+  ContractFunctionExecutionError,
+  ContractFunctionRevertedError,
+  ContractFunctionZeroDataError,
+  HttpRequestError,
+  type PublicClient,
+  parseAbi,
+} from 'viem';
+
+import {
+  ContractNonceStrategy,
+  MemoryNonceStore,
+  MonotonicNonceStrategy,
+  NonceManager,
+} from './nonces';
+
+const agent = '0x00000000000000000000000000000000000000a1';
+const contractAddress = '0x00000000000000000000000000000000000000c1';
+const intentHash = `0x${'00'.repeat(32)}` as const;
+
+const nonceAbi = parseAbi(['function getAcceptanceNonce(address) view returns (uint256)']);
+
+function readError(cause: Error): ContractFunctionExecutionError {
+  return new ContractFunctionExecutionError(cause as never, {
+    abi: nonceAbi,
+    functionName: 'getAcceptanceNonce',
+    args: [agent],
+  });
+}
+
+function clientReading(read: () => Promise<bigint>): PublicClient {
+  return { readContract: read } as unknown as PublicClient;
+}
+
+describe('NonceManager', () => {
+  it('reads the chain once, then hands out distinct nonces', async () => {
+    let reads = 0;
+    const nonces = new NonceManager({ fetchNonce: async () => { reads++; return 4n; } });
+
+    const reserved = await Promise.all([nonces.reserve(agent), nonces.reserve(agent), nonces.reserve(agent)]);
+
+    expect(reserved).toEqual([5n, 6n, 7n]);
+    expect(reads).toBe(1);
+  });
+
+  it('holds the lock until submission finishes', async () => {
+    const nonces = new NonceManager({ fetchNonce: async () => 0n });
+    const order: string[] = [];
+
+    const first = nonces.withNonce(agent, async (nonce) => {
+      order.push(`send ${nonce}`);
+      await new Promise(resolve => setTimeout(resolve, 10));
+      order.push(`sent ${nonce}`);
+    });
+    const second = nonces.withNonce(agent, async (nonce) => {
+      order.push(`send ${nonce}`);
+    });
+    await Promise.all([first, second]);
+
+    expect(order).toEqual(['send 1', 'sent 1', 'send 2']);
+  });
+
+  it('resyncs after a failed submission without going backwards', async () => {
+    let onChain = 10n;
+    const nonces = new NonceManager({ fetchNonce: async () => onChain });
+
+    await nonces.reserve(agent);
+    onChain = 20n;
+    await expect(nonces.withNonce(agent, async () => { throw new Error('nonce too low'); })).rejects.toThrow();
+    expect(await nonces.peek(agent)).toBe(20n);
+
+    onChain = 5n;
+    expect(await nonces.resync(agent)).toBe(20n);
+  });
+
+  it('keeps counters in the given store under its namespace', async () => {
+    const store = new MemoryNonceStore();
+    const nonces = new NonceManager({ fetchNonce: async () => 0n, store, namespace: '1:' });
+
+    await nonces.reserve(agent);
+
+    expect(await store.get(`1:intent:${agent}`)).toBe(1n);
+  });
+});
+
+describe('MonotonicNonceStrategy', () => {
+  it('increases per participant', async () => {
+    const strategy = new MonotonicNonceStrategy();
+    const other = '0x00000000000000000000000000000000000000a2';
+
+    expect(await strategy.next(agent)).toBe(1n);
+    expect(await strategy.next(agent)).toBe(2n);
+    expect(await strategy.next(other)).toBe(1n);
+  });
+});
+
+describe('ContractNonceStrategy', () => {
+  it('reserves past the on-chain nonce', async () => {
+    const strategy = new ContractNonceStrategy({
+      publicClient: clientReading(async () => 7n),
+      contractAddress,
+    });
+
+    const nonces = await Promise.all([strategy.next(agent, intentHash), strategy.next(agent, intentHash)]);
+
+    expect(nonces).toEqual([8n, 9n]);
+  });
+
+  it('falls back when the function returns no data', async () => {
+    const strategy = new ContractNonceStrategy({
+      publicClient: clientReading(async () => {
+        throw readError(new ContractFunctionZeroDataError({ functionName: 'getAcceptanceNonce' }));
+      }),
+      contractAddress,
+    });
+
+    expect(await strategy.next(agent, intentHash)).toBe(1n);
+  });
+
+  it('falls back when the call reverts without data', async () => {
+    const strategy = new ContractNonceStrategy({
+      publicClient: clientReading(async () => {
+        throw readError(new ContractFunctionRevertedError({ abi: nonceAbi, functionName: 'getAcceptanceNonce' }));
+      }),
+      contractAddress,
+    });
+
+    expect(await strategy.next(agent, intentHash)).toBe(1n);
+  });
+
+  it('rethrows other read errors', async () => {
+    const strategy = new ContractNonceStrategy({
+      publicClient: clientReading(async () => {
+        throw readError(new HttpRequestError({ url: 'http://localhost:8545' }));
+      }),
+      contractAddress,
+    });
+
+    await expect(strategy.next(agent, intentHash)).rejects.toBeInstanceOf(ContractFunctionExecutionError);
+  });
+});
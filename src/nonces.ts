@@ -0,0 +1,291 @@
+/**
+ * @erc8001/sdk - Nonce Management
+ *
+ * Intent nonce allocation for proposers and strategies for choosing
+ * acceptance nonces, both backed by a pluggable store.
+ */
+
+import {
+  type Address,
+  type Hash,
+  type PublicClient,
+  ContractFunctionExecutionError,
+  ContractFunctionRevertedError,
+  ContractFunctionZeroDataError,
+} from 'viem';
+
+import { ACCEPTANCE_NONCE_ABI } from './abis/AgentCoordination';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// STORES
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Persistence for nonce counters.
+ * Implement this to keep nonces across restarts (database, KV, file).
+ */
+export interface NonceStore {
+  get(key: string): Promise<bigint | undefined>;
+  set(key: string, value: bigint): Promise<void>;
+}
+
+/**
+ * In-memory nonce store. Counters are lost on restart.
+ */
+export class MemoryNonceStore implements NonceStore {
+  private readonly values: Map<string, bigint> = new Map();
+
+  async get(key: string): Promise<bigint | undefined> {
+    return this.values.get(key);
+  }
+
+  async set(key: string, value: bigint): Promise<void> {
+    this.values.set(key, value);
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// INTENT NONCES
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Reserves intent nonces locally so concurrent proposals from one agent
+ * never share a nonce.
+ *
+ * The contract only requires nonce > agentNonces[agentId], so gaps left by
+ * failed proposals are harmless; the manager never hands a nonce out twice.
+ *
+ * @example
+ * ```ts
+ * const nonces = new NonceManager({
+ *   fetchNonce: (agentId) => client.getAgentNonce(agentId),
+ * });
+ *
+ * const [a, b] = await Promise.all([
+ *   nonces.reserve(agentId),
+ *   nonces.reserve(agentId),
+ * ]); // distinct
+ * ```
+ */
+export class NonceManager {
+  private readonly fetchNonce: (agentId: Address) => Promise<bigint>;
+  private readonly store: NonceStore;
+  private readonly namespace: string;
+  private readonly locks: KeyedLock = new KeyedLock();
+
+  constructor(options: {
+    /** Reads the agent's current on-chain nonce */
+    fetchNonce: (agentId: Address) => Promise<bigint>;
+    /** Where the last reserved nonce is kept (default: in memory) */
+    store?: NonceStore;
+    /** Key prefix, e.g. chain id and contract address */
+    namespace?: string;
+  }) {
+    this.fetchNonce = options.fetchNonce;
+    this.store = options.store ?? new MemoryNonceStore();
+    this.namespace = options.namespace ?? '';
+  }
+
+  /**
+   * Reserve the next nonce for an agent.
+   * The first reservation for an agent reads the chain; later ones are local.
+   */
+  async reserve(agentId: Address): Promise<bigint> {
+    const key = this.key(agentId);
+
+    return this.locks.run(key, async () => {
+      const last = await this.store.get(key) ?? await this.fetchNonce(agentId);
+      const nonce = last + 1n;
+      await this.store.set(key, nonce);
+      return nonce;
+    });
+  }
+
+  /**
+   * Reserve the next nonce for an agent and hold the agent's lock while
+   * `submit` uses it, so proposals reach the mempool in nonce order.
+   * If `submit` throws, the counter is resynced before the lock is released.
+   */
+  async withNonce<T>(agentId: Address, submit: (nonce: bigint) => Promise<T>): Promise<T> {
+    const key = this.key(agentId);
+
+    return this.locks.run(key, async () => {
+      const last = await this.store.get(key) ?? await this.fetchNonce(agentId);
+      const nonce = last + 1n;
+      await this.store.set(key, nonce);
+
+      try {
+        return await submit(nonce);
+      } catch (error) {
+        // Another process may have used nonces we don't know about
+        await this.sync(key, agentId).catch(() => undefined);
+        throw error;
+      }
+    });
+  }
+
+  /**
+   * Re-read the chain after a failed proposal, e.g. NONCE_TOO_LOW.
+   * Only moves forward, so nonces already handed out are never reused.
+   *
+   * @returns The last reserved nonce after syncing
+   */
+  async resync(agentId: Address): Promise<bigint> {
+    const key = this.key(agentId);
+    return this.locks.run(key, () => this.sync(key, agentId));
+  }
+
+  /**
+   * The last nonce reserved for an agent, if any.
+   */
+  async peek(agentId: Address): Promise<bigint | undefined> {
+    return this.store.get(this.key(agentId));
+  }
+
+  private async sync(key: string, agentId: Address): Promise<bigint> {
+    const onChain = await this.fetchNonce(agentId);
+    const stored = await this.store.get(key);
+    const last = stored !== undefined && stored > onChain ? stored : onChain;
+    await this.store.set(key, last);
+    return last;
+  }
+
+  private key(agentId: Address): string {
+    return `${this.namespace}intent:${agentId.toLowerCase()}`;
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// ACCEPTANCE NONCE STRATEGIES
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Chooses the nonce for a participant's next acceptance.
+ */
+export interface AcceptanceNonceStrategy {
+  next(participant: Address, intentHash: Hash): Promise<bigint>;
+}
+
+/**
+ * Always uses nonce 0. Matches contracts that ignore acceptance nonces.
+ */
+export class ZeroNonceStrategy implements AcceptanceNonceStrategy {
+  async next(): Promise<bigint> {
+    return 0n;
+  }
+}
+
+/**
+ * Strictly increasing nonce per participant, persisted in a NonceStore.
+ * Safe against concurrent calls for the same participant.
+ */
+export class MonotonicNonceStrategy implements AcceptanceNonceStrategy {
+  private readonly store: NonceStore;
+  private readonly namespace: string;
+  private readonly locks: KeyedLock = new KeyedLock();
+
+  /**
+   * @param store Where counters are kept (default: in memory)
+   * @param namespace Key prefix, e.g. chain id and contract address
+   */
+  constructor(store: NonceStore = new MemoryNonceStore(), namespace: string = '') {
+    this.store = store;
+    this.namespace = namespace;
+  }
+
+  async next(participant: Address): Promise<bigint> {
+    const key = `${this.namespace}acceptance:${participant.toLowerCase()}`;
+
+    return this.locks.run(key, async () => {
+      const last = await this.store.get(key);
+      const nonce = last === undefined ? 1n : last + 1n;
+      await this.store.set(key, nonce);
+      return nonce;
+    });
+  }
+}
+
+/**
+ * Reads the participant's last acceptance nonce from the contract and
+ * reserves the next ones through a NonceManager, so concurrent acceptances
+ * by one participant get distinct nonces. Falls back to another strategy
+ * only when the contract has no getAcceptanceNonce(address) function;
+ * any other read error is rethrown.
+ */
+export class ContractNonceStrategy implements AcceptanceNonceStrategy {
+  private readonly nonces: NonceManager;
+  private readonly fallback: AcceptanceNonceStrategy;
+
+  constructor(options: {
+    publicClient: PublicClient;
+    contractAddress: Address;
+    /** Used when the contract doesn't expose nonces (default: monotonic in memory) */
+    fallback?: AcceptanceNonceStrategy;
+    /** Where the last reserved nonce is kept (default: in memory) */
+    store?: NonceStore;
+    /** Key prefix, e.g. chain id and contract address */
+    namespace?: string;
+  }) {
+    const { publicClient, contractAddress } = options;
+    this.nonces = new NonceManager({
+      fetchNonce: (participant) => publicClient.readContract({
+        address: contractAddress,
+        abi: ACCEPTANCE_NONCE_ABI,
+        functionName: 'getAcceptanceNonce',
+        args: [participant],
+      }),
+      store: options.store,
+      namespace: `${options.namespace ?? ''}acceptance:`,
+    });
+    this.fallback = options.fallback ?? new MonotonicNonceStrategy();
+  }
+
+  async next(participant: Address, intentHash: Hash): Promise<bigint> {
+    try {
+      return await this.nonces.reserve(participant);
+    } catch (error) {
+      if (isMissingFunctionError(error)) {
+        return this.fallback.next(participant, intentHash);
+      }
+      throw error;
+    }
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// HELPERS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Whether a read failed because the contract lacks the function: it
+ * returned no data, or reverted without any.
+ */
+function isMissingFunctionError(error: unknown): boolean {
+  if (!(error instanceof ContractFunctionExecutionError)) return false;
+  const cause = error.cause;
+  if (cause instanceof ContractFunctionZeroDataError) return true;
+  return cause instanceof ContractFunctionRevertedError && (cause.raw === undefined || cause.raw === '0x');
+}
+
+/**
+ * Serializes async work per key so read-modify-write sequences don't interleave.
+ * @internal
+ */
+export class KeyedLock {
+  private readonly tails: Map<string, Promise<unknown>> = new Map();
+
+  async run<T>(key: string, fn: () => Promise<T>): Promise<T> {
+    const previous = this.tails.get(key) ?? Promise.resolve();
+    const result = previous.then(fn);
+    const tail = result.catch(() => undefined);
+    this.tails.set(key, tail);
+
+    try {
+      return await result;
+    } finally {
+      if (this.tails.get(key) === tail) {
+        this.tails.delete(key);
+      }
+    }
+  }
+}
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { encodeFunctionData, erc20Abi, getAddress } from 'viem';
+
+import type { ActionBound, Policy } from './types';
+import { BoundsTree } from './merkle';
+import { checkActionAgainstPolicy } from './policy';
+import { addTokenSpending, createTokenBudget } from './tokens';
+
+const usdc = getAddress('0x00000000000000000000000000000000000000c1');
+const other = getAddress('0x00000000000000000000000000000000000000c2');
+const payroll = getAddress('0x00000000000000000000000000000000000000a1');
+const stranger = getAddress('0x00000000000000000000000000000000000000a2');
+
+const actions: ActionBound[] = [
+  { target: usdc, selector: '0xa9059cbb', constraints: [{ kind: 'oneOf', arg: 0, values: [payroll] }] },
+  { target: usdc, selector: '0x095ea7b3' },
+];
+const tree = BoundsTree.of(actions);
+
+const policy: Policy = {
+  boundsRoot: tree.root,
+  spendingLimit: 100n,
+  spent: 40n,
+  windowStart: 1_000n,
+  windowEnd: 2_000n,
+  callsRemaining: 5n,
+  active: true,
+};
+
+function transfer(to: `0x${string}`, amount: bigint) {
+  return {
+    target: usdc,
+    callData: encodeFunctionData({ abi: erc20Abi, functionName: 'transfer', args: [to, amount] }),
+    abi: erc20Abi,
+  };
+}
+
+describe('checkActionAgainstPolicy', () => {
+  it('allows an action inside every bound', () => {
+    expect(checkActionAgainstPolicy(policy, tree, { ...transfer(payroll, 10n), value: 60n }, 1_500n))
+        .toEqual({ allowed: true });
+    expect(checkActionAgainstPolicy(policy, actions, transfer(payroll, 10n), 1_500n, { tree: {} }))
+        .toEqual({ allowed: true });
+  });
+
+  it('rejects actions outside the tree', () => {
+    const verdict = checkActionAgainstPolicy(policy, tree, { ...transfer(payroll, 10n), target: other }, 1_500n);
+
+    expect(verdict).toMatchObject({ allowed: false, bound: 'membership', code: 'OUT_OF_BOUNDS' });
+  });
+
+  it('rejects actions whose tree is not the policy\'s', () => {
+    const verdict = checkActionAgainstPolicy(policy, actions.slice(1), transfer(payroll, 10n), 1_500n, { tree: {} });
+
+    expect(verdict).toMatchObject({ allowed: false, bound: 'membership' });
+  });
+
+  it('rejects failed argument constraints', () => {
+    const verdict = checkActionAgainstPolicy(policy, tree, transfer(stranger, 10n), 1_500n);
+
+    expect(verdict).toMatchObject({ allowed: false, bound: 'arguments', code: 'OUT_OF_BOUNDS' });
+  });
+
+  it('rejects value over the remaining spending limit', () => {
+    const verdict = checkActionAgainstPolicy(policy, tree, { ...transfer(payroll, 10n), value: 61n }, 1_500n);
+
+    expect(verdict).toMatchObject({ allowed: false, bound: 'spending', code: 'OVER_SPENDING_LIMIT' });
+  });
+
+  it('rejects token spends over the remaining token budget', () => {
+    const tokenBudget = addTokenSpending(createTokenBudget({ [usdc]: 100n }), usdc, 95n);
+
+    expect(checkActionAgainstPolicy(policy, tree, transfer(payroll, 5n), 1_500n, { tokenBudget }))
+        .toEqual({ allowed: true });
+    expect(checkActionAgainstPolicy(policy, tree, transfer(payroll, 6n), 1_500n, { tokenBudget }))
+        .toMatchObject({ allowed: false, bound: 'tokenSpending', code: 'OVER_TOKEN_LIMIT' });
+  });
+
+  it.each([
+    ['inactive', { active: false }, 1_500n, 'active'],
+    ['not yet open', {}, 999n, 'window'],
+    ['expired', {}, 2_000n, 'window'],
+    ['out of calls', { callsRemaining: 0n }, 1_500n, 'calls'],
+  ] as const)('rejects any action when the policy is %s', (_, change, now, bound) => {
+    const verdict = checkActionAgainstPolicy({ ...policy, ...change }, tree, transfer(payroll, 10n), now);
+
+    expect(verdict).toMatchObject({ allowed: false, bound });
+  });
+});
@@ -0,0 +1,189 @@
+/**
+ * @erc8001/sdk - Policy Checks
+ *
+ * Pure mirror of the BoundedExecution contract's checks, for evaluating
+ * candidate actions without an RPC call per action.
+ */
+
+import {
+  type Abi,
+  type Address,
+  type Hex,
+} from 'viem';
+
+import type {
+  ActionBound,
+  ActionMatch,
+  BoundsTreeOptions,
+  Policy,
+  PolicyVerdict,
+  TokenBudget,
+} from './types';
+
+import { BoundsTree } from './merkle';
+
+import { checkArguments } from './constraints';
+
+import { decodeTokenSpend, remainingTokenBudget, tokenSpendCost } from './tokens';
+
+import { LEGACY_BOUNDS_TREE } from './utils';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// CHECKS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Check the parts of a policy that don't depend on the action:
+ * active, inside its window, and with calls remaining.
+ *
+ * @param now Unix seconds
+ */
+export function checkPolicyState(policy: Policy, now: bigint): PolicyVerdict {
+  if (!policy.active) {
+    return { allowed: false, bound: 'active', code: 'POLICY_INACTIVE', reason: 'Policy is not active' };
+  }
+  if (now < policy.windowStart || now >= policy.windowEnd) {
+    return {
+      allowed: false,
+      bound: 'window',
+      code: 'OUTSIDE_WINDOW',
+      reason: `Time ${now} is outside window [${policy.windowStart}, ${policy.windowEnd})`,
+    };
+  }
+  if (policy.callsRemaining === 0n) {
+    return { allowed: false, bound: 'calls', code: 'NO_CALLS_REMAINING', reason: 'No calls remaining' };
+  }
+  return { allowed: true };
+}
+
+/**
+ * Check an action against a policy locally, as executeBounded would:
+ * policy state, Merkle membership of target and selector, argument
+ * constraints, then value against spendingLimit minus spent. With a
+ * token budget, ERC-20 transfers and approvals are checked against it
+ * too, as BoundedClient.execute does.
+ *
+ * Pass a prebuilt BoundsTree when checking many actions against the
+ * same policy. Actions whose root differs from policy.boundsRoot fail
+ * membership, since the contract would check against a different tree.
+ *
+ * @param action.abi The target's ABI, needed when the matching actions have constraints
+ * @param now Unix seconds
+ * @param options.tree Tree options when `actions` is an array (default: LEGACY_BOUNDS_TREE)
+ * @param options.tokenBudget The policy's client-side token budget
+ *
+ * @example
+ * ```ts
+ * const tree = BoundsTree.of(actions, LEGACY_BOUNDS_TREE);
+ * const verdict = checkActionAgainstPolicy(policy, tree, { target, callData, value }, now);
+ * if (!verdict.allowed) console.log(verdict.bound, verdict.reason);
+ * ```
+ */
+export function checkActionAgainstPolicy(
+    policy: Policy,
+    actions: ActionBound[] | BoundsTree,
+    action: { target: Address; callData: Hex; value?: bigint; abi?: Abi },
+    now: bigint,
+    options?: { tree?: BoundsTreeOptions; tokenBudget?: TokenBudget }
+): PolicyVerdict {
+  const state = checkPolicyState(policy, now);
+  if (!state.allowed) return state;
+
+  const tree = actions instanceof BoundsTree
+      ? actions
+      : BoundsTree.of(actions, options?.tree ?? LEGACY_BOUNDS_TREE);
+
+  if (tree.root.toLowerCase() !== policy.boundsRoot.toLowerCase()) {
+    return {
+      allowed: false,
+      bound: 'membership',
+      code: 'OUT_OF_BOUNDS',
+      reason: `Actions root ${tree.root} does not match policy bounds root ${policy.boundsRoot}`,
+    };
+  }
+
+  const match = matchAction(tree, action, action.abi);
+  if (!match.matched) {
+    return { allowed: false, bound: match.bound, code: 'OUT_OF_BOUNDS', reason: match.reason };
+  }
+
+  const value = action.value ?? 0n;
+  const remaining = policy.spendingLimit - policy.spent;
+  if (value > remaining) {
+    return {
+      allowed: false,
+      bound: 'spending',
+      code: 'OVER_SPENDING_LIMIT',
+      reason: `Value ${value} exceeds remaining budget ${remaining}`,
+    };
+  }
+
+  const tokenBudget = options?.tokenBudget;
+  const spend = tokenBudget && decodeTokenSpend(action.target, action.callData);
+  if (tokenBudget && spend) {
+    const tokenRemaining = remainingTokenBudget(tokenBudget, spend.token);
+    if (tokenRemaining !== undefined && tokenSpendCost(tokenBudget, spend) > tokenRemaining) {
+      return {
+        allowed: false,
+        bound: 'tokenSpending',
+        code: 'OVER_TOKEN_LIMIT',
+        reason: `${spend.method} of ${spend.amount} ${spend.token} exceeds remaining token budget ${tokenRemaining}`,
+      };
+    }
+  }
+
+  return { allowed: true };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// MATCHING
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Find the allowed action a call falls under. An unconstrained action
+ * matches on target and selector alone; a constrained one also needs
+ * its constraints to hold, which takes the target's ABI.
+ */
+export function matchAction(
+    tree: BoundsTree,
+    call: { target: Address; callData: Hex },
+    abi?: Abi
+): ActionMatch {
+  if (call.callData.length < 10) {
+    return { matched: false, bound: 'membership', reason: 'Call data has no selector' };
+  }
+
+  const selector = call.callData.slice(0, 10) as Hex;
+  const candidates = tree.actionsFor(call.target, selector);
+  if (candidates.length === 0) {
+    return {
+      matched: false,
+      bound: 'membership',
+      reason: `Action ${call.target}:${selector} is not in the policy's bounds`,
+    };
+  }
+
+  const unconstrained = candidates.find(a => !a.constraints);
+  if (unconstrained) {
+    return { matched: true, action: unconstrained };
+  }
+
+  if (!abi) {
+    return {
+      matched: false,
+      bound: 'arguments',
+      reason: `Action ${call.target}:${selector} has argument constraints; an ABI is needed to check them`,
+    };
+  }
+
+  const reasons: string[] = [];
+  for (const candidate of candidates) {
+    const report = checkArguments(candidate.constraints ?? [], abi, call.callData);
+    if (report.satisfied) {
+      return { matched: true, action: candidate };
+    }
+    reasons.push(report.failures.map(f => f.reason).join('; '));
+  }
+
+  return { matched: false, bound: 'arguments', reason: reasons.join(' | ') };
+}
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+
+import { CoordinationTypeRegistry, coordinationType, isTypedPayload } from './registry';
+import { SerializationError, UnknownCoordinationTypeError } from './errors';
+
+interface Auction {
+  lot: bigint;
+  reserve: bigint;
+}
+
+function auctionRegistry() {
+  const registry = new CoordinationTypeRegistry();
+  const codec = registry.register<Auction, { minBid: bigint }>({
+    name: 'ACME.AUCTION_V1',
+    version: coordinationType('ACME.AUCTION_V1.PAYLOAD_V1'),
+    data: {
+      type: 'tuple',
+      components: [
+        { name: 'lot', type: 'uint256' },
+        { name: 'reserve', type: 'uint256' },
+      ],
+    },
+    conditions: { type: 'tuple', components: [{ name: 'minBid', type: 'uint256' }] },
+    validate: (data) => {
+      if ((data as Auction).reserve === 0n) throw new Error('reserve must be set');
+    },
+  });
+  return { registry, codec };
+}
+
+describe('CoordinationTypeRegistry', () => {
+  it('looks types up by name or hash', () => {
+    const { registry, codec } = auctionRegistry();
+
+    expect(codec.coordinationType).toBe(coordinationType('ACME.AUCTION_V1'));
+    expect(registry.get('ACME.AUCTION_V1')).toBe(codec);
+    expect(registry.get(codec.coordinationType.toUpperCase().replace('0X', '0x'))).toBe(codec);
+    expect(registry.has('ACME.OTHER')).toBe(false);
+    expect(registry.names()).toEqual(['ACME.AUCTION_V1']);
+  });
+
+  it('refuses to register a name twice', () => {
+    const { registry, codec } = auctionRegistry();
+
+    expect(() => registry.register(codec.definition)).toThrow(/already registered/);
+  });
+
+  it('round-trips typed payloads', () => {
+    const { registry, codec } = auctionRegistry();
+    const typed = { type: 'ACME.AUCTION_V1', data: { lot: 7n, reserve: 10n ** 18n }, conditions: { minBid: 5n } };
+
+    const payload = { ...registry.encodePayload(typed), timestamp: 123n };
+    const decoded = registry.decodePayload<Auction>(payload);
+
+    expect(decoded).toEqual({
+      name: 'ACME.AUCTION_V1',
+      coordinationType: codec.coordinationType,
+      version: codec.version,
+      data: typed.data,
+      conditionsHash: codec.computeConditionsHash({ minBid: 5n }),
+      timestamp: 123n,
+      metadata: '0x',
+    });
+    expect(isTypedPayload(typed)).toBe(true);
+    expect(isTypedPayload(payload)).toBe(false);
+  });
+
+  it('validates data when participants are given', () => {
+    const { registry } = auctionRegistry();
+    const typed = { type: 'ACME.AUCTION_V1', data: { lot: 1n, reserve: 0n } };
+
+    expect(() => registry.encodePayload(typed, [])).toThrow(/reserve must be set/);
+    expect(() => registry.encodePayload(typed)).not.toThrow();
+  });
+
+  it('rejects unknown types, other versions and malformed data', () => {
+    const { registry, codec } = auctionRegistry();
+    const payload = { ...codec.encodePayload({ lot: 1n, reserve: 1n }), timestamp: 0n };
+
+    expect(() => registry.encodePayload({ type: 'ACME.OTHER', data: {} })).toThrow(UnknownCoordinationTypeError);
+    expect(() => registry.decodePayload({ ...payload, version: coordinationType('V2') })).toThrow(SerializationError);
+    expect(() => registry.decodePayload({ ...payload, coordinationData: '0x01' })).toThrow(SerializationError);
+  });
+});
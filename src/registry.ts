@@ -0,0 +1,257 @@
+/**
+ * @erc8001/sdk - Coordination Type Registry
+ *
+ * Named coordination types with ABI codecs for their coordinationData
+ * and conditions, so payloads can be built from and decoded to typed
+ * objects instead of hand-rolled bytes.
+ */
+
+import {
+  type Address,
+  type Hash,
+  type Hex,
+  keccak256,
+  encodePacked,
+  encodeAbiParameters,
+  decodeAbiParameters,
+} from 'viem';
+
+import type {
+  CoordinationPayload,
+  CoordinationTypeDefinition,
+  DecodedPayload,
+  TypedPayload,
+} from './types';
+
+import { SerializationError, UnknownCoordinationTypeError } from './errors';
+
+const ZERO_HASH = ('0x' + '0'.repeat(64)) as Hash;
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TYPE HASHES
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Create a coordination type hash from a string.
+ * e.g., "TRADE_V1" => keccak256("TRADE_V1")
+ */
+export function coordinationType(name: string): Hash {
+  return keccak256(encodePacked(['string'], [name]));
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// CODEC
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Encoder and decoder for one registered coordination type.
+ */
+export class CoordinationTypeCodec<TData = unknown, TConditions = unknown> {
+  readonly name: string;
+  readonly coordinationType: Hash;
+  readonly version: Hash;
+  readonly definition: CoordinationTypeDefinition;
+
+  constructor(definition: CoordinationTypeDefinition) {
+    this.definition = definition;
+    this.name = definition.name;
+    this.coordinationType = coordinationType(definition.name);
+    this.version = definition.version;
+  }
+
+  encodeData(data: TData): Hex {
+    return encodeAbiParameters([this.definition.data], [data]);
+  }
+
+  decodeData(coordinationData: Hex): TData {
+    try {
+      return decodeAbiParameters([this.definition.data], coordinationData)[0] as TData;
+    } catch (error) {
+      throw new SerializationError(
+          'coordinationData',
+          `Not a valid ${this.name} payload: ${(error as Error).message}`
+      );
+    }
+  }
+
+  /**
+   * Run the type's validator, if it has one. Throws if invalid.
+   */
+  validate(data: TData, participants: Address[]): void {
+    this.definition.validate?.(data, participants);
+  }
+
+  /**
+   * keccak256 of the ABI-encoded conditions, or the zero hash when none are given.
+   */
+  computeConditionsHash(conditions?: TConditions): Hash {
+    if (conditions === undefined) return ZERO_HASH;
+    if (!this.definition.conditions) {
+      throw new Error(`Coordination type ${this.name} takes no conditions`);
+    }
+    return keccak256(encodeAbiParameters([this.definition.conditions], [conditions]));
+  }
+
+  /**
+   * Build a CoordinationPayload (less its timestamp) from typed data.
+   */
+  encodePayload(
+      data: TData,
+      options?: { conditions?: TConditions; metadata?: Hex }
+  ): Omit<CoordinationPayload, 'timestamp'> {
+    return {
+      version: this.version,
+      coordinationType: this.coordinationType,
+      coordinationData: this.encodeData(data),
+      conditionsHash: this.computeConditionsHash(options?.conditions),
+      metadata: options?.metadata ?? '0x',
+    };
+  }
+
+  /**
+   * Decode a payload of this type, checking its type and version.
+   */
+  decodePayload(payload: CoordinationPayload): DecodedPayload<TData> {
+    if (payload.coordinationType.toLowerCase() !== this.coordinationType.toLowerCase()) {
+      throw new SerializationError('coordinationType', `Expected ${this.name} (${this.coordinationType})`);
+    }
+    if (payload.version.toLowerCase() !== this.version.toLowerCase()) {
+      throw new SerializationError('version', `Unsupported ${this.name} payload version ${payload.version}`);
+    }
+
+    return {
+      name: this.name,
+      coordinationType: this.coordinationType,
+      version: this.version,
+      data: this.decodeData(payload.coordinationData),
+      conditionsHash: payload.conditionsHash,
+      timestamp: payload.timestamp,
+      metadata: payload.metadata,
+    };
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// REGISTRY
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Coordination types known to this process, keyed by type hash.
+ *
+ * @example
+ * ```ts
+ * const registry = new CoordinationTypeRegistry();
+ *
+ * const auction = registry.register<{ lot: bigint; reserve: bigint }>({
+ *   name: 'ACME.AUCTION_V1',
+ *   version: coordinationType('ACME.AUCTION_V1.PAYLOAD_V1'),
+ *   data: {
+ *     type: 'tuple',
+ *     components: [
+ *       { name: 'lot', type: 'uint256' },
+ *       { name: 'reserve', type: 'uint256' },
+ *     ],
+ *   },
+ * });
+ *
+ * await client.propose({
+ *   agentId,
+ *   participants,
+ *   payload: { type: 'ACME.AUCTION_V1', data: { lot: 1n, reserve: 10n ** 18n } },
+ *   registry,
+ * });
+ * ```
+ */
+export class CoordinationTypeRegistry {
+  private readonly codecs: Map<Hash, CoordinationTypeCodec> = new Map();
+
+  /**
+   * Register a coordination type.
+   * Throws if a type with the same name is already registered.
+   */
+  register<TData = unknown, TConditions = unknown>(
+      definition: CoordinationTypeDefinition
+  ): CoordinationTypeCodec<TData, TConditions> {
+    const codec = new CoordinationTypeCodec<TData, TConditions>(definition);
+    if (this.codecs.has(codec.coordinationType)) {
+      throw new Error(`Coordination type ${definition.name} is already registered`);
+    }
+    this.codecs.set(codec.coordinationType, codec as CoordinationTypeCodec);
+    return codec;
+  }
+
+  /**
+   * Look up a codec by type name or coordinationType hash.
+   */
+  get<TData = unknown, TConditions = unknown>(
+      type: string
+  ): CoordinationTypeCodec<TData, TConditions> | undefined {
+    return this.codecs.get(toTypeHash(type)) as CoordinationTypeCodec<TData, TConditions> | undefined;
+  }
+
+  has(type: string): boolean {
+    return this.codecs.has(toTypeHash(type));
+  }
+
+  /**
+   * Registered type names.
+   */
+  names(): string[] {
+    return [...this.codecs.values()].map(c => c.name);
+  }
+
+  /**
+   * Build a CoordinationPayload (less its timestamp) from a typed object.
+   *
+   * @param typed The typed payload
+   * @param participants When given, the data is validated against them first
+   */
+  encodePayload(
+      typed: TypedPayload,
+      participants?: Address[]
+  ): Omit<CoordinationPayload, 'timestamp'> {
+    const codec = this.require(typed.type);
+    if (participants) {
+      codec.validate(typed.data, participants);
+    }
+    return codec.encodePayload(typed.data, {
+      conditions: typed.conditions,
+      metadata: typed.metadata,
+    });
+  }
+
+  /**
+   * Decode a payload, e.g. one read back from chain, into a typed object.
+   */
+  decodePayload<TData = unknown>(payload: CoordinationPayload): DecodedPayload<TData> {
+    return this.require(payload.coordinationType).decodePayload(payload) as DecodedPayload<TData>;
+  }
+
+  private require(type: string): CoordinationTypeCodec {
+    const codec = this.get(type);
+    if (!codec) {
+      throw new UnknownCoordinationTypeError(type);
+    }
+    return codec;
+  }
+}
+
+/**
+ * Registry used when none is given.
+ */
+export const defaultRegistry = new CoordinationTypeRegistry();
+
+/**
+ * Whether a payload is a typed object rather than a raw CoordinationPayload.
+ */
+export function isTypedPayload(
+    payload: Omit<CoordinationPayload, 'timestamp'> | TypedPayload
+): payload is TypedPayload {
+  return 'type' in payload && 'data' in payload;
+}
+
+function toTypeHash(type: string): Hash {
+  return /^0x[0-9a-fA-F]{64}$/.test(type)
+      ? type.toLowerCase() as Hash
+      : coordinationType(type);
+}
@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import { getAddress } from 'viem';
+
+import type { PayloadLeg } from './types';
+import { defaultRegistry } from './registry';
+import {
+  PaymentCodec,
+  canonicalizeLegs,
+  decodePayment,
+  decodeSwap,
+  decodeTrade,
+  paymentPayload,
+  swapPayload,
+  tradePayload,
+  transferLegs,
+  validateLegs,
+  validateSwap,
+} from './schemas';
+
+const alice = getAddress('0x00000000000000000000000000000000000000a1');
+const bob = getAddress('0x00000000000000000000000000000000000000a2');
+const usdc = getAddress('0x00000000000000000000000000000000000000c1');
+const weth = getAddress('0x00000000000000000000000000000000000000c2');
+const participants = [alice, bob];
+
+// Alice pays 100 USDC for 1 WETH from Bob
+const legs: PayloadLeg[] = canonicalizeLegs([
+  ...transferLegs(alice, bob, usdc, 100n),
+  ...transferLegs(bob, alice, weth, 1n),
+]);
+
+function encode(typed: Parameters<typeof defaultRegistry.encodePayload>[0]) {
+  return { ...defaultRegistry.encodePayload(typed, participants), timestamp: 1n };
+}
+
+describe('default schemas', () => {
+  it('registers TRADE, SWAP and PAYMENT', () => {
+    expect(defaultRegistry.names()).toEqual(
+        expect.arrayContaining(['ERC8001.TRADE_V1', 'ERC8001.SWAP_V1', 'ERC8001.PAYMENT_V1'])
+    );
+  });
+
+  it('round-trips each payload type', () => {
+    const trade = { legs, deadline: 1_900_000_000n };
+    const swap = { legs, slippageBps: 50, deadline: 1_900_000_000n };
+
+    expect(decodeTrade(encode(tradePayload(trade)))).toEqual(trade);
+    expect(decodeSwap(encode(swapPayload(swap)))).toEqual(swap);
+
+    const payment = decodePayment(encode(paymentPayload({ legs, deadline: 1n })));
+    expect(payment.reference).toBe(`0x${'00'.repeat(32)}`);
+    expect(decodePayment(PaymentCodec.encodeData(payment))).toEqual(payment);
+  });
+
+  it('refuses to decode a payload as another type', () => {
+    const trade = encode(tradePayload({ legs, deadline: 1n }));
+
+    expect(() => decodeSwap(trade)).toThrow(/Expected ERC8001.SWAP_V1/);
+  });
+
+  it('orders legs canonically whatever order they were given in', () => {
+    expect(canonicalizeLegs([...legs].reverse())).toEqual(legs);
+    expect(tradePayload({ legs: [...legs].reverse(), deadline: 1n }).data.legs).toEqual(legs);
+  });
+});
+
+describe('leg validation', () => {
+  it('accepts balanced canonical legs', () => {
+    expect(() => validateLegs(legs, participants)).not.toThrow();
+  });
+
+  it.each([
+    ['no legs', [], /At least one leg/],
+    ['unbalanced legs', [...legs.slice(0, 3), { ...legs[3], amount: 2n }], /do not net to zero/],
+    ['non-canonical legs', [...legs].reverse(), /not canonical/],
+    ['zero amounts', [{ ...legs[0], amount: 0n }, ...legs.slice(1)], /Zero amount/],
+  ] as const)('rejects %s', (_, given, message) => {
+    expect(() => validateLegs([...given], participants)).toThrow(message);
+  });
+
+  it('rejects legs for non-participants, participants without legs and transfers of nothing', () => {
+    const carol = getAddress('0x00000000000000000000000000000000000000a3');
+
+    expect(() => validateLegs(legs, [alice])).toThrow(/non-participant/);
+    expect(() => validateLegs(legs, [...participants, carol])).toThrow(/has no leg/);
+    expect(() => transferLegs(alice, bob, usdc, 0n)).toThrow(/must be positive/);
+  });
+
+  it('bounds swap slippage', () => {
+    expect(() => validateSwap({ legs, slippageBps: 10_001, deadline: 1n }, participants)).toThrow(/slippageBps/);
+    expect(() => validateSwap({ legs, slippageBps: 10, deadline: 0n }, participants)).toThrow(/Deadline/);
+  });
+});
@@ -0,0 +1,313 @@
+/**
+ * @erc8001/sdk - Payload Schemas
+ *
+ * Standard coordinationData encodings for TRADE, SWAP and PAYMENT, so
+ * agents from different vendors agree on the exact bytes they sign.
+ * Registered in defaultRegistry on import.
+ */
+
+import {
+  type Address,
+  type Hash,
+  type Hex,
+  getAddress,
+} from 'viem';
+
+import type {
+  CoordinationPayload,
+  PayloadLeg,
+  PaymentData,
+  SwapData,
+  TradeData,
+  TypedPayload,
+} from './types';
+
+import { coordinationType, defaultRegistry } from './registry';
+
+import { canonicalizeParticipants, isParticipant } from './utils';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// ABI LAYOUT
+// ═══════════════════════════════════════════════════════════════════════════
+
+const LEGS_PARAMETER = {
+  name: 'legs',
+  type: 'tuple[]',
+  components: [
+    { name: 'participant', type: 'address' },
+    { name: 'token', type: 'address' },
+    { name: 'amount', type: 'int256' },
+    { name: 'recipient', type: 'address' },
+  ],
+} as const;
+
+const MAX_SLIPPAGE_BPS = 10_000;
+
+// ═══════════════════════════════════════════════════════════════════════════
+// CODECS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * ERC8001.TRADE_V1: exchange of tokens between participants.
+ */
+export const TradeCodec = defaultRegistry.register<TradeData>({
+  name: 'ERC8001.TRADE_V1',
+  version: coordinationType('ERC8001.TRADE_V1.PAYLOAD_V1'),
+  data: {
+    type: 'tuple',
+    components: [
+      LEGS_PARAMETER,
+      { name: 'deadline', type: 'uint64' },
+    ],
+  },
+  validate: (data, participants) => validateTrade(data as TradeData, participants),
+});
+
+/**
+ * ERC8001.SWAP_V1: a trade whose received amounts may fall short by slippageBps.
+ */
+export const SwapCodec = defaultRegistry.register<SwapData>({
+  name: 'ERC8001.SWAP_V1',
+  version: coordinationType('ERC8001.SWAP_V1.PAYLOAD_V1'),
+  data: {
+    type: 'tuple',
+    components: [
+      LEGS_PARAMETER,
+      { name: 'slippageBps', type: 'uint16' },
+      { name: 'deadline', type: 'uint64' },
+    ],
+  },
+  validate: (data, participants) => validateSwap(data as SwapData, participants),
+});
+
+/**
+ * ERC8001.PAYMENT_V1: one or more payers paying one or more payees.
+ */
+export const PaymentCodec = defaultRegistry.register<PaymentData>({
+  name: 'ERC8001.PAYMENT_V1',
+  version: coordinationType('ERC8001.PAYMENT_V1.PAYLOAD_V1'),
+  data: {
+    type: 'tuple',
+    components: [
+      LEGS_PARAMETER,
+      { name: 'deadline', type: 'uint64' },
+      { name: 'reference', type: 'bytes32' },
+    ],
+  },
+  validate: (data, participants) => validatePayment(data as PaymentData, participants),
+});
+
+// ═══════════════════════════════════════════════════════════════════════════
+// BUILDERS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Build a TRADE payload. Legs are checksummed and put in canonical order.
+ */
+export function tradePayload(
+    data: TradeData,
+    options?: { metadata?: Hex }
+): TypedPayload<TradeData> {
+  return {
+    type: TradeCodec.name,
+    data: { ...data, legs: canonicalizeLegs(data.legs) },
+    metadata: options?.metadata,
+  };
+}
+
+/**
+ * Build a SWAP payload. Legs are checksummed and put in canonical order.
+ */
+export function swapPayload(
+    data: SwapData,
+    options?: { metadata?: Hex }
+): TypedPayload<SwapData> {
+  return {
+    type: SwapCodec.name,
+    data: { ...data, legs: canonicalizeLegs(data.legs) },
+    metadata: options?.metadata,
+  };
+}
+
+/**
+ * Build a PAYMENT payload. Legs are checksummed and put in canonical order.
+ */
+export function paymentPayload(
+    data: Omit<PaymentData, 'reference'> & { reference?: Hash },
+    options?: { metadata?: Hex }
+): TypedPayload<PaymentData> {
+  return {
+    type: PaymentCodec.name,
+    data: {
+      ...data,
+      legs: canonicalizeLegs(data.legs),
+      reference: data.reference ?? ('0x' + '0'.repeat(64)) as Hash,
+    },
+    metadata: options?.metadata,
+  };
+}
+
+/**
+ * The two legs of a single transfer: `from` pays, `to` receives.
+ */
+export function transferLegs(
+    from: Address,
+    to: Address,
+    token: Address,
+    amount: bigint
+): PayloadLeg[] {
+  if (amount <= 0n) {
+    throw new Error('Transfer amount must be positive');
+  }
+  return [
+    { participant: from, token, amount: -amount, recipient: from },
+    { participant: to, token, amount, recipient: to },
+  ];
+}
+
+/**
+ * Checksum legs and sort them by participant, then token.
+ */
+export function canonicalizeLegs(legs: PayloadLeg[]): PayloadLeg[] {
+  return legs
+      .map(leg => ({
+        participant: getAddress(leg.participant),
+        token: getAddress(leg.token),
+        amount: leg.amount,
+        recipient: getAddress(leg.recipient),
+      }))
+      .sort(compareLegs);
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// DECODERS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Decode a TRADE payload or its raw coordinationData.
+ */
+export function decodeTrade(payload: CoordinationPayload | Hex): TradeData {
+  return typeof payload === 'string'
+      ? TradeCodec.decodeData(payload)
+      : TradeCodec.decodePayload(payload).data;
+}
+
+/**
+ * Decode a SWAP payload or its raw coordinationData.
+ */
+export function decodeSwap(payload: CoordinationPayload | Hex): SwapData {
+  return typeof payload === 'string'
+      ? SwapCodec.decodeData(payload)
+      : SwapCodec.decodePayload(payload).data;
+}
+
+/**
+ * Decode a PAYMENT payload or its raw coordinationData.
+ */
+export function decodePayment(payload: CoordinationPayload | Hex): PaymentData {
+  return typeof payload === 'string'
+      ? PaymentCodec.decodeData(payload)
+      : PaymentCodec.decodePayload(payload).data;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// VALIDATION
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Validate legs against the intent's participants.
+ * Throws if invalid.
+ *
+ * - every leg belongs to a participant, and every participant has a leg
+ * - no zero amounts
+ * - legs are in canonical order, at most one per participant and token
+ * - amounts of each token net to zero
+ */
+export function validateLegs(legs: PayloadLeg[], participants: Address[]): void {
+  if (legs.length === 0) {
+    throw new Error('At least one leg required');
+  }
+
+  for (const leg of legs) {
+    if (!isParticipant(leg.participant, participants)) {
+      throw new Error(`Leg for non-participant ${leg.participant}`);
+    }
+    if (leg.amount === 0n) {
+      throw new Error(`Zero amount in leg for ${leg.participant}`);
+    }
+  }
+
+  for (const participant of canonicalizeParticipants(participants)) {
+    if (!legs.some(leg => getAddress(leg.participant) === participant)) {
+      throw new Error(`Participant ${participant} has no leg`);
+    }
+  }
+
+  for (let i = 1; i < legs.length; i++) {
+    if (compareLegs(legs[i - 1], legs[i]) >= 0) {
+      throw new Error('Legs not canonical (must be sorted by participant, then token, without duplicates)');
+    }
+  }
+
+  const net = new Map<Address, bigint>();
+  for (const leg of legs) {
+    const token = getAddress(leg.token);
+    net.set(token, (net.get(token) ?? 0n) + leg.amount);
+  }
+  for (const [token, total] of net) {
+    if (total !== 0n) {
+      throw new Error(`Legs for token ${token} do not net to zero (off by ${total})`);
+    }
+  }
+}
+
+/**
+ * Validate TRADE data. Throws if invalid.
+ */
+export function validateTrade(data: TradeData, participants: Address[]): void {
+  validateLegs(data.legs, participants);
+  validateDeadline(data.deadline);
+}
+
+/**
+ * Validate SWAP data. Throws if invalid.
+ */
+export function validateSwap(data: SwapData, participants: Address[]): void {
+  validateLegs(data.legs, participants);
+  validateDeadline(data.deadline);
+
+  if (!Number.isInteger(data.slippageBps) || data.slippageBps < 0 || data.slippageBps > MAX_SLIPPAGE_BPS) {
+    throw new Error(`slippageBps must be an integer between 0 and ${MAX_SLIPPAGE_BPS}`);
+  }
+}
+
+/**
+ * Validate PAYMENT data. Throws if invalid.
+ */
+export function validatePayment(data: PaymentData, participants: Address[]): void {
+  validateLegs(data.legs, participants);
+  validateDeadline(data.deadline);
+}
+
+function validateDeadline(deadline: bigint): void {
+  if (deadline <= 0n) {
+    throw new Error('Deadline required');
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// HELPERS
+// ═══════════════════════════════════════════════════════════════════════════
+
+function compareLegs(a: PayloadLeg, b: PayloadLeg): number {
+  const byParticipant = compareAddresses(a.participant, b.participant);
+  return byParticipant !== 0 ? byParticipant : compareAddresses(a.token, b.token);
+}
+
+function compareAddresses(a: Address, b: Address): number {
+  const aNum = BigInt(a);
+  const bNum = BigInt(b);
+  if (aNum < bNum) return -1;
+  if (aNum > bNum) return 1;
+  return 0;
+}
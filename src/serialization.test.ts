@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { getAddress } from 'viem';
+
+import type { AcceptanceAttestation, AgentIntent, Envelope } from './types';
+import { computeIntentStructHash, createDomain } from './eip712';
+import { decodeEnvelope, deserialize, encodeEnvelope, serialize } from './serialization';
+import { SerializationError } from './errors';
+
+const domain = createDomain(8453n, getAddress('0x00000000000000000000000000000000000000c1'));
+
+const intent: AgentIntent = {
+  payloadHash: `0x${'aa'.repeat(32)}`,
+  expiry: 2n ** 64n - 1n,
+  nonce: 7n,
+  agentId: getAddress('0x00000000000000000000000000000000000000a1'),
+  coordinationType: `0x${'bb'.repeat(32)}`,
+  coordinationValue: 10n ** 30n,
+  participants: [
+    getAddress('0x00000000000000000000000000000000000000a1'),
+    getAddress('0x00000000000000000000000000000000000000a2'),
+  ],
+};
+
+const attestation: AcceptanceAttestation = {
+  intentHash: computeIntentStructHash(intent),
+  participant: getAddress('0x00000000000000000000000000000000000000a2'),
+  nonce: 3n,
+  expiry: 1_900_000_000n,
+  conditionsHash: `0x${'00'.repeat(32)}`,
+  signature: `0x${'12'.repeat(65)}`,
+};
+
+const envelopes: Envelope[] = [
+  { kind: 'intent', domain, data: intent, signature: `0x${'34'.repeat(65)}` },
+  { kind: 'attestation', domain, data: attestation },
+];
+
+describe.each([
+  ['JSON', serialize, deserialize],
+  ['binary', encodeEnvelope, decodeEnvelope],
+] as const)('%s', (_, encode, decode) => {
+  it.each(envelopes)('round-trips $kind envelopes, bigints included', (envelope) => {
+    expect(decode(encode(envelope))).toEqual(envelope);
+  });
+
+  it('preserves the intent hash', () => {
+    const decoded = decode(encode(envelopes[0]));
+
+    expect(computeIntentStructHash(decoded.data as AgentIntent)).toBe(computeIntentStructHash(intent));
+  });
+});
+
+describe('deserialize', () => {
+  const json = JSON.parse(serialize(envelopes[0]));
+
+  it.each([
+    ['invalid JSON', '{'],
+    ['an unknown version', { ...json, v: 2 }],
+    ['an unknown kind', { ...json, kind: 'proposal' }],
+    ['another domain name', { ...json, domain: { ...json.domain, name: 'ERC-8002' } }],
+    ['an unknown field', { ...json, data: { ...json.data, extra: '1' } }],
+    ['a missing field', { ...json, data: { ...json.data, nonce: undefined } }],
+    ['a uint64 out of range', { ...json, data: { ...json.data, expiry: (2n ** 64n).toString() } }],
+    ['a non-decimal integer', { ...json, data: { ...json.data, nonce: '0x07' } }],
+    ['a bad address', { ...json, data: { ...json.data, agentId: '0x1234' } }],
+    ['short bytes32', { ...json, data: { ...json.data, payloadHash: '0xaa' } }],
+  ])('rejects %s', (_, input) => {
+    expect(() => deserialize(typeof input === 'string' ? input : JSON.stringify(input)))
+        .toThrow(SerializationError);
+  });
+
+  it('changes the intent hash when a field is tampered with', () => {
+    const tampered = deserialize(JSON.stringify({ ...json, data: { ...json.data, coordinationValue: '1' } }));
+
+    expect(computeIntentStructHash(tampered.data as AgentIntent)).not.toBe(computeIntentStructHash(intent));
+  });
+});
+
+describe('decodeEnvelope', () => {
+  const encoded = encodeEnvelope(envelopes[1]);
+
+  it.each([
+    ['non-base64url input', `${encoded}+`],
+    ['a truncated body', encoded.slice(0, 40)],
+    ['an unknown version', `B${encoded.slice(1)}`],
+    ['an empty envelope', ''],
+  ])('rejects %s', (_, input) => {
+    expect(() => decodeEnvelope(input)).toThrow(SerializationError);
+  });
+});
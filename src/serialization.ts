@@ -0,0 +1,375 @@
+/**
+ * @erc8001/sdk - Serialization
+ *
+ * Versioned wire formats for intents, payloads and attestations:
+ * - canonical JSON (sorted keys, decimal bigints, checksummed addresses)
+ * - compact binary (ABI-encoded), carried as base64url
+ *
+ * Both formats carry the ERC8001Domain so the receiver can recompute
+ * struct hashes and verify signatures.
+ */
+
+import {
+  type Hex,
+  getAddress,
+  isAddress,
+  encodeAbiParameters,
+  decodeAbiParameters,
+  concat,
+  toHex,
+  hexToBytes,
+  bytesToHex,
+} from 'viem';
+
+import type {
+  ERC8001Domain,
+  Envelope,
+  EnvelopeKind,
+} from './types';
+
+import { createDomain } from './eip712';
+
+import { SerializationError } from './errors';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// SCHEMAS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Wire format version. Bump on any incompatible change.
+ */
+export const SERIALIZATION_VERSION = 1;
+
+type FieldType = 'address' | 'address[]' | 'bytes' | 'bytes32' | 'uint64' | 'uint256';
+
+/**
+ * Field order and types of each kind. Order defines the binary layout.
+ */
+const SCHEMAS: Record<EnvelopeKind, ReadonlyArray<readonly [string, FieldType]>> = {
+  intent: [
+    ['payloadHash', 'bytes32'],
+    ['expiry', 'uint64'],
+    ['nonce', 'uint64'],
+    ['agentId', 'address'],
+    ['coordinationType', 'bytes32'],
+    ['coordinationValue', 'uint256'],
+    ['participants', 'address[]'],
+  ],
+  payload: [
+    ['version', 'bytes32'],
+    ['coordinationType', 'bytes32'],
+    ['coordinationData', 'bytes'],
+    ['conditionsHash', 'bytes32'],
+    ['timestamp', 'uint256'],
+    ['metadata', 'bytes'],
+  ],
+  attestation: [
+    ['intentHash', 'bytes32'],
+    ['participant', 'address'],
+    ['nonce', 'uint64'],
+    ['expiry', 'uint64'],
+    ['conditionsHash', 'bytes32'],
+    ['signature', 'bytes'],
+  ],
+};
+
+/**
+ * Kind tags for the binary header. Append only.
+ */
+const KIND_TAGS: EnvelopeKind[] = ['intent', 'payload', 'attestation'];
+
+const UINT_MAX: Record<'uint64' | 'uint256', bigint> = {
+  uint64: 2n ** 64n - 1n,
+  uint256: 2n ** 256n - 1n,
+};
+
+// ═══════════════════════════════════════════════════════════════════════════
+// JSON
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Serialize an envelope to canonical JSON.
+ * Equal envelopes always produce byte-identical output.
+ */
+export function serialize(envelope: Envelope): string {
+  const json: Record<string, unknown> = {
+    v: SERIALIZATION_VERSION,
+    kind: envelope.kind,
+    domain: {
+      name: envelope.domain.name,
+      version: envelope.domain.version,
+      chainId: envelope.domain.chainId.toString(),
+      verifyingContract: getAddress(envelope.domain.verifyingContract),
+    },
+    data: toJsonFields(envelope.kind, envelope.data as unknown as Record<string, unknown>),
+  };
+
+  if (envelope.kind === 'intent' && envelope.signature) {
+    json.signature = envelope.signature.toLowerCase();
+  }
+
+  return canonicalStringify(json);
+}
+
+/**
+ * Parse and validate canonical JSON produced by serialize().
+ * Throws SerializationError on any schema violation.
+ */
+export function deserialize(json: string): Envelope {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new SerializationError('', 'Invalid JSON');
+  }
+
+  const root = expectObject(parsed, '');
+  if (root.v !== SERIALIZATION_VERSION) {
+    throw new SerializationError('v', `Unsupported version ${String(root.v)}`);
+  }
+
+  const kind = parseKind(root.kind);
+  const domain = parseJsonDomain(root.domain);
+  const data = fromJsonFields(kind, expectObject(root.data, 'data'));
+
+  if (kind === 'intent') {
+    const envelope: Envelope = { kind, domain, data: data as never };
+    if (root.signature !== undefined) {
+      envelope.signature = parseField('bytes', root.signature, 'signature') as Hex;
+    }
+    return envelope;
+  }
+
+  return { kind, domain, data: data as never };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// BINARY
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Encode an envelope as base64url.
+ * Layout: version (1 byte) | kind (1 byte) | abi.encode(chainId, verifyingContract, data, signature)
+ */
+export function encodeEnvelope(envelope: Envelope): string {
+  const fields = SCHEMAS[envelope.kind];
+  const data = envelope.data as unknown as Record<string, unknown>;
+
+  const body = encodeAbiParameters(
+      [
+        { type: 'uint256' },
+        { type: 'address' },
+        { type: 'tuple', components: fields.map(([name, type]) => ({ name, type })) },
+        { type: 'bytes' },
+      ],
+      [
+        envelope.domain.chainId,
+        envelope.domain.verifyingContract,
+        Object.fromEntries(fields.map(([name]) => [name, data[name]])),
+        envelope.kind === 'intent' ? envelope.signature ?? '0x' : '0x',
+      ]
+  );
+
+  const header = toHex(
+      new Uint8Array([SERIALIZATION_VERSION, KIND_TAGS.indexOf(envelope.kind)])
+  );
+
+  return toBase64Url(hexToBytes(concat([header, body])));
+}
+
+/**
+ * Decode and validate a base64url envelope produced by encodeEnvelope().
+ */
+export function decodeEnvelope(encoded: string): Envelope {
+  if (!/^[A-Za-z0-9_-]*$/.test(encoded)) {
+    throw new SerializationError('', 'Not base64url');
+  }
+
+  const bytes = fromBase64Url(encoded);
+  if (bytes.length < 2) {
+    throw new SerializationError('', 'Envelope too short');
+  }
+  if (bytes[0] !== SERIALIZATION_VERSION) {
+    throw new SerializationError('v', `Unsupported version ${bytes[0]}`);
+  }
+
+  const kind = KIND_TAGS[bytes[1]];
+  if (!kind) {
+    throw new SerializationError('kind', `Unknown kind tag ${bytes[1]}`);
+  }
+
+  const fields = SCHEMAS[kind];
+  let decoded: readonly unknown[];
+  try {
+    decoded = decodeAbiParameters(
+        [
+          { type: 'uint256' },
+          { type: 'address' },
+          { type: 'tuple', components: fields.map(([name, type]) => ({ name, type })) },
+          { type: 'bytes' },
+        ],
+        bytesToHex(bytes.subarray(2))
+    );
+  } catch (error) {
+    throw new SerializationError('', `Malformed body: ${(error as Error).message}`);
+  }
+
+  const [chainId, verifyingContract, data, signature] = decoded as [
+    bigint, Hex, Record<string, unknown>, Hex,
+  ];
+  const domain = createDomain(chainId, getAddress(verifyingContract));
+
+  if (kind === 'intent') {
+    const envelope: Envelope = { kind, domain, data: data as never };
+    if (signature !== '0x') envelope.signature = signature;
+    return envelope;
+  }
+
+  return { kind, domain, data: data as never };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// FIELD CONVERSION
+// ═══════════════════════════════════════════════════════════════════════════
+
+function toJsonFields(kind: EnvelopeKind, data: Record<string, unknown>): Record<string, unknown> {
+  const out: Record<string, unknown> = {};
+  for (const [name, type] of SCHEMAS[kind]) {
+    out[name] = toJsonValue(type, data[name]);
+  }
+  return out;
+}
+
+function toJsonValue(type: FieldType, value: unknown): unknown {
+  switch (type) {
+    case 'uint64':
+    case 'uint256':
+      return (value as bigint).toString();
+    case 'address':
+      return getAddress(value as string);
+    case 'address[]':
+      return (value as string[]).map(a => getAddress(a));
+    case 'bytes':
+    case 'bytes32':
+      return (value as string).toLowerCase();
+  }
+}
+
+function fromJsonFields(kind: EnvelopeKind, data: Record<string, unknown>): Record<string, unknown> {
+  const out: Record<string, unknown> = {};
+  for (const [name, type] of SCHEMAS[kind]) {
+    out[name] = parseField(type, data[name], `data.${name}`);
+  }
+
+  const unknownKeys = Object.keys(data).filter(k => !(k in out));
+  if (unknownKeys.length > 0) {
+    throw new SerializationError('data', `Unknown fields: ${unknownKeys.join(', ')}`);
+  }
+
+  return out;
+}
+
+function parseField(type: FieldType, value: unknown, path: string): unknown {
+  switch (type) {
+    case 'uint64':
+    case 'uint256': {
+      if (typeof value !== 'string' || !/^(0|[1-9][0-9]*)$/.test(value)) {
+        throw new SerializationError(path, 'Expected a decimal integer string');
+      }
+      const n = BigInt(value);
+      if (n > UINT_MAX[type]) {
+        throw new SerializationError(path, `Out of range for ${type}`);
+      }
+      return n;
+    }
+    case 'address':
+      if (typeof value !== 'string' || !isAddress(value, { strict: false })) {
+        throw new SerializationError(path, 'Expected an address');
+      }
+      return getAddress(value);
+    case 'address[]':
+      if (!Array.isArray(value)) {
+        throw new SerializationError(path, 'Expected an array of addresses');
+      }
+      return value.map((v, i) => parseField('address', v, `${path}[${i}]`));
+    case 'bytes32':
+      if (typeof value !== 'string' || !/^0x[0-9a-fA-F]{64}$/.test(value)) {
+        throw new SerializationError(path, 'Expected 32 bytes of hex');
+      }
+      return value.toLowerCase();
+    case 'bytes':
+      if (typeof value !== 'string' || !/^0x([0-9a-fA-F]{2})*$/.test(value)) {
+        throw new SerializationError(path, 'Expected hex bytes');
+      }
+      return value.toLowerCase();
+  }
+}
+
+function parseKind(value: unknown): EnvelopeKind {
+  if (typeof value !== 'string' || !KIND_TAGS.includes(value as EnvelopeKind)) {
+    throw new SerializationError('kind', `Unknown kind ${String(value)}`);
+  }
+  return value as EnvelopeKind;
+}
+
+function parseJsonDomain(value: unknown): ERC8001Domain {
+  const domain = expectObject(value, 'domain');
+  if (domain.name !== 'ERC-8001') {
+    throw new SerializationError('domain.name', 'Expected "ERC-8001"');
+  }
+  if (domain.version !== '1') {
+    throw new SerializationError('domain.version', 'Expected "1"');
+  }
+
+  return createDomain(
+      parseField('uint256', domain.chainId, 'domain.chainId') as bigint,
+      parseField('address', domain.verifyingContract, 'domain.verifyingContract') as Hex
+  );
+}
+
+function expectObject(value: unknown, path: string): Record<string, unknown> {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new SerializationError(path, 'Expected an object');
+  }
+  return value as Record<string, unknown>;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// ENCODING HELPERS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * JSON.stringify with recursively sorted object keys.
+ */
+function canonicalStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalStringify).join(',')}]`;
+  }
+  if (typeof value === 'object' && value !== null) {
+    const entries = Object.keys(value)
+        .sort()
+        .map(key => `${JSON.stringify(key)}:${canonicalStringify((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(encoded: string): Uint8Array {
+  const base64 = encoded.replace(/-/g, '+').replace(/_/g, '/');
+  const padded = base64 + '='.repeat((4 - (base64.length % 4)) % 4);
+
+  let binary: string;
+  try {
+    binary = atob(padded);
+  } catch {
+    throw new SerializationError('', 'Not base64url');
+  }
+
+  return Uint8Array.from(binary, c => c.charCodeAt(0));
+}
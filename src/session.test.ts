@@ -0,0 +1,147 @@
+import { describe, expect, it } from 'vitest';
+import type { Address, Hash } from 'viem';
+
+import type { AcceptanceAttestation, CoordinationStatus, TransactionState } from './types';
+import { Status } from './types';
+import type { CoordinationClient } from './coordination';
+import { CoordinationSession } from './session';
+import { IllegalActionError } from './errors';
+
+const intentHash = `0x${'ab'.repeat(32)}` as Hash;
+const proposer = '0x00000000000000000000000000000000000000a1' as Address;
+const alice = '0x00000000000000000000000000000000000000a2' as Address;
+const bob = '0x00000000000000000000000000000000000000a3' as Address;
+
+/**
+ * A CoordinationClient stand-in whose chain state the test controls.
+ */
+function fakeClient() {
+  const chain = {
+    status: {
+      status: Status.Proposed,
+      proposer,
+      participants: [alice, bob],
+      acceptedBy: [] as Address[],
+      expiry: 1_000n,
+    } as CoordinationStatus,
+    attestations: [] as AcceptanceAttestation[],
+    txState: 'pending' as TransactionState,
+    calls: [] as string[],
+  };
+
+  const client = {
+    address: alice,
+    getStatus: async () => chain.status,
+    getStoredAttestations: async () => chain.attestations,
+    getTransactionState: async () => chain.txState,
+    accept: async () => { chain.calls.push('accept'); return { txHash: '0x01' }; },
+    execute: async () => { chain.calls.push('execute'); return { txHash: '0x02' }; },
+    cancel: async () => { chain.calls.push('cancel'); return { txHash: '0x03' }; },
+  } as unknown as CoordinationClient;
+
+  return { chain, client };
+}
+
+function setup() {
+  const { chain, client } = fakeClient();
+  const clock = { now: 100n };
+  const session = new CoordinationSession({ client, intentHash, now: () => clock.now });
+  const transitions: string[] = [];
+  session.onTransition(({ from, to }) => transitions.push(`${from}->${to}`));
+  return { chain, clock, session, transitions };
+}
+
+describe('CoordinationSession', () => {
+  it('follows acceptances to ready', async () => {
+    const { chain, session, transitions } = setup();
+
+    await session.refresh();
+    chain.status = { ...chain.status, acceptedBy: [alice] };
+    await session.refresh();
+    chain.status = { ...chain.status, status: Status.Ready, acceptedBy: [alice, bob] };
+    await session.refresh();
+
+    expect(transitions).toEqual(['unknown->proposed', 'proposed->partially_accepted', 'partially_accepted->ready']);
+  });
+
+  it('rejects actions before loading without any call', async () => {
+    const { chain, session } = setup();
+
+    expect(session.can('accept').allowed).toBe(false);
+    await expect(session.accept()).rejects.toBeInstanceOf(IllegalActionError);
+    expect(chain.calls).toEqual([]);
+  });
+
+  it('only lets participants accept, once', async () => {
+    const { chain, session } = setup();
+    chain.status = { ...chain.status, acceptedBy: [alice] };
+    await session.refresh();
+
+    expect(session.can('accept', bob).allowed).toBe(true);
+    expect(session.can('accept', alice).reason).toMatch(/already accepted/);
+    expect(session.can('accept', proposer).reason).toMatch(/not a participant/);
+  });
+
+  it('goes stale once an acceptance expires, and rejects accepting again', async () => {
+    const { chain, clock, session } = setup();
+    chain.status = { ...chain.status, status: Status.Ready, acceptedBy: [alice, bob] };
+    chain.attestations = [{ participant: bob, expiry: 150n } as AcceptanceAttestation];
+    await session.refresh();
+    expect(session.state).toBe('ready');
+
+    clock.now = 200n;
+    expect(session.tick()).toBe('stale');
+    expect(session.can('execute').allowed).toBe(false);
+    expect(session.can('accept', bob).allowed).toBe(false);
+    expect(session.can('cancel', proposer).allowed).toBe(true);
+  });
+
+  it('stays executing while the transaction is pending', async () => {
+    const { chain, session } = setup();
+    chain.status = { ...chain.status, status: Status.Ready, acceptedBy: [alice, bob] };
+    await session.refresh();
+
+    await session.execute();
+    expect(session.state).toBe('executing');
+    expect(session.can('execute').reason).toMatch(/in flight/);
+
+    await session.refresh();
+    expect(session.state).toBe('executing');
+
+    chain.status = { ...chain.status, status: Status.Executed };
+    await session.refresh();
+    expect(session.state).toBe('executed');
+    expect(session.can('cancel').allowed).toBe(false);
+  });
+
+  it.each(['reverted', 'dropped'] as const)('leaves executing when the transaction is %s', async (txState) => {
+    const { chain, session } = setup();
+    chain.status = { ...chain.status, status: Status.Ready, acceptedBy: [alice, bob] };
+    await session.refresh();
+    await session.execute();
+
+    chain.txState = txState;
+    await session.refresh();
+
+    expect(session.state).toBe('ready');
+    expect(session.can('execute').allowed).toBe(true);
+  });
+
+  it('lets anyone cancel once expired, and nothing else', async () => {
+    const { chain, clock, session } = setup();
+    await session.refresh();
+    expect(session.can('cancel', bob).reason).toMatch(/only the proposer/);
+
+    clock.now = 1_000n;
+    expect(session.tick()).toBe('expired');
+    expect(session.can('accept', bob).allowed).toBe(false);
+    expect(session.can('cancel', bob).allowed).toBe(true);
+
+    await session.cancel();
+    expect(chain.calls).toEqual(['cancel']);
+
+    chain.status = { ...chain.status, status: Status.Cancelled };
+    await session.refresh();
+    expect(session.state).toBe('cancelled');
+  });
+});
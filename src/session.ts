@@ -0,0 +1,312 @@
+/**
+ * @erc8001/sdk - Coordination Session
+ *
+ * Client-side state machine for a single coordination. Combines the
+ * on-chain status with the intent expiry, acceptance expiries and the
+ * local clock, so illegal actions are rejected before any RPC call.
+ */
+
+import {
+  type Address,
+  type Hash,
+  type Hex,
+} from 'viem';
+
+import type {
+  AcceptOptions,
+  AcceptanceAttestation,
+  CoordinationPayload,
+  CoordinationStatus,
+  CreateAttestationOptions,
+  ExecuteOptions,
+  SessionAction,
+  SessionState,
+  SessionTransition,
+  WriteOptions,
+} from './types';
+
+import { Status } from './types';
+
+import type { CoordinationClient } from './coordination';
+
+import { IllegalActionError } from './errors';
+
+import { isParticipant } from './utils';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// SESSION CLASS
+// ═══════════════════════════════════════════════════════════════════════════
+
+const TERMINAL_STATES: SessionState[] = ['executed', 'cancelled'];
+
+/** States in which the only remaining action is cancelling */
+const CANCEL_ONLY_STATES: SessionState[] = ['expired', 'stale'];
+
+/**
+ * Tracks one coordination through its lifecycle:
+ * proposed → partially_accepted → ready → executing → executed / cancelled / expired.
+ * An expired coordination can still be cancelled, by anyone. A coordination
+ * with an expired acceptance is stale: the contract rejects a second
+ * acceptance, so it can only be cancelled and proposed again.
+ *
+ * @example
+ * ```ts
+ * const session = new CoordinationSession({ client, intentHash });
+ *
+ * session.onTransition(({ from, to }) => console.log(`${from} -> ${to}`));
+ *
+ * await session.refresh();
+ * if (session.can('accept').allowed) {
+ *   await session.accept();
+ * }
+ * ```
+ */
+export class CoordinationSession {
+  readonly intentHash: Hash;
+
+  private readonly client: CoordinationClient;
+  private readonly now: () => bigint;
+  private readonly listeners: Set<(transition: SessionTransition) => void> = new Set();
+
+  private currentState: SessionState = 'unknown';
+  private lastStatus?: CoordinationStatus;
+  private attestations: AcceptanceAttestation[] = [];
+  private executionTx?: Hash;
+
+  constructor(options: {
+    client: CoordinationClient;
+    intentHash: Hash;
+    /** Local clock in unix seconds (default: Date.now) */
+    now?: () => bigint;
+  }) {
+    this.client = options.client;
+    this.intentHash = options.intentHash;
+    this.now = options.now ?? (() => BigInt(Math.floor(Date.now() / 1000)));
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // STATE
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  get state(): SessionState {
+    return this.currentState;
+  }
+
+  /**
+   * The on-chain status from the last refresh.
+   */
+  get status(): CoordinationStatus | undefined {
+    return this.lastStatus;
+  }
+
+  /**
+   * Subscribe to state transitions.
+   *
+   * @returns A function that unsubscribes
+   */
+  onTransition(listener: (transition: SessionTransition) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * Read the on-chain status and locally known acceptances, then re-derive the state.
+   */
+  async refresh(): Promise<SessionState> {
+    const [status, attestations] = await Promise.all([
+      this.client.getStatus(this.intentHash),
+      this.client.getStoredAttestations(this.intentHash),
+    ]);
+
+    this.lastStatus = status;
+    this.attestations = attestations;
+
+    // An in-flight execution stays executing until its transaction
+    // reverts or disappears, or the chain shows the result
+    const derived = this.derive();
+    if (this.currentState === 'executing' && derived === 'ready') {
+      if (!this.executionTx) {
+        return this.currentState;
+      }
+      const txState = await this.client.getTransactionState(this.executionTx);
+      if (txState === 'pending' || txState === 'success') {
+        return this.currentState;
+      }
+    }
+
+    this.executionTx = undefined;
+    this.transition(derived, status);
+    return this.currentState;
+  }
+
+  /**
+   * Re-derive the state from the local clock alone, without any RPC call.
+   * Use on a timer to notice expiry as soon as it happens.
+   */
+  tick(): SessionState {
+    if (this.lastStatus && this.currentState !== 'executing') {
+      this.transition(this.derive());
+    }
+    return this.currentState;
+  }
+
+  /**
+   * Whether an action is allowed right now, judged from local state only.
+   *
+   * @param action The action to check
+   * @param actor Who would perform it (default: the client's account, if known)
+   */
+  can(action: SessionAction, actor?: Address): { allowed: boolean; reason?: string } {
+    const state = this.tick();
+    const status = this.lastStatus;
+
+    if (!status || state === 'unknown') {
+      return { allowed: false, reason: 'coordination not loaded; call refresh()' };
+    }
+    if (TERMINAL_STATES.includes(state) || (CANCEL_ONLY_STATES.includes(state) && action !== 'cancel')) {
+      return { allowed: false, reason: `coordination is ${state}` };
+    }
+    if (state === 'executing') {
+      return { allowed: false, reason: 'execution already in flight' };
+    }
+
+    switch (action) {
+      case 'accept':
+        if (actor && !isParticipant(actor, status.participants)) {
+          return { allowed: false, reason: `${actor} is not a participant` };
+        }
+        if (actor && isParticipant(actor, status.acceptedBy)) {
+          return { allowed: false, reason: `${actor} has already accepted` };
+        }
+        return { allowed: true };
+
+      case 'execute':
+        if (state !== 'ready') {
+          return { allowed: false, reason: 'not all participants have a valid acceptance' };
+        }
+        return { allowed: true };
+
+      case 'cancel':
+        if (actor && status.expiry > this.now() && actor.toLowerCase() !== status.proposer.toLowerCase()) {
+          return { allowed: false, reason: 'only the proposer can cancel before expiry' };
+        }
+        return { allowed: true };
+    }
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // ACTIONS
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Accept as the client's account.
+   * Throws IllegalActionError without any RPC call if not allowed.
+   */
+  async accept(
+      options?: Partial<CreateAttestationOptions>,
+      writeOptions?: AcceptOptions
+  ): ReturnType<CoordinationClient['accept']> {
+    this.assertCan('accept', this.client.address);
+    return this.client.accept(this.intentHash, options, writeOptions);
+  }
+
+  /**
+   * Execute the coordination.
+   * Throws IllegalActionError without any RPC call if not ready.
+   * The session stays executing until a refresh() sees the result on-chain,
+   * or sees the transaction reverted or dropped.
+   */
+  async execute(
+      payload?: CoordinationPayload,
+      executionData?: Hex,
+      writeOptions?: ExecuteOptions
+  ): ReturnType<CoordinationClient['execute']> {
+    this.assertCan('execute');
+
+    const previous = this.currentState;
+    this.transition('executing');
+
+    try {
+      const result = await this.client.execute(this.intentHash, payload, executionData, writeOptions);
+      this.executionTx = result.txHash;
+      return result;
+    } catch (error) {
+      this.transition(previous);
+      throw error;
+    }
+  }
+
+  /**
+   * Cancel the coordination.
+   * Throws IllegalActionError without any RPC call if not allowed.
+   */
+  async cancel(reason?: string, writeOptions?: WriteOptions): Promise<{ txHash: Hash }> {
+    this.assertCan('cancel', this.client.address);
+    return this.client.cancel(this.intentHash, reason, writeOptions);
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // INTERNALS
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  private assertCan(action: SessionAction, actor?: Address): void {
+    const { allowed, reason } = this.can(action, actor);
+    if (!allowed) {
+      throw new IllegalActionError(action, this.currentState, reason ?? 'not allowed');
+    }
+  }
+
+  /**
+   * Map on-chain status plus local clock to a session state.
+   */
+  private derive(): SessionState {
+    const status = this.lastStatus;
+    if (!status) return 'unknown';
+
+    switch (status.status) {
+      case Status.None:
+        return 'unknown';
+      case Status.Executed:
+        return 'executed';
+      case Status.Cancelled:
+        return 'cancelled';
+      case Status.Expired:
+        return 'expired';
+    }
+
+    if (status.expiry <= this.now()) {
+      return 'expired';
+    }
+
+    if (status.acceptedBy.some(p => this.isStale(p))) {
+      return 'stale';
+    }
+    if (status.status === Status.Ready) {
+      return 'ready';
+    }
+
+    return status.acceptedBy.length > 0 ? 'partially_accepted' : 'proposed';
+  }
+
+  /**
+   * Whether a participant's known acceptance has expired by the local clock.
+   * Participants whose attestation we have never seen are assumed valid.
+   */
+  private isStale(participant: Address): boolean {
+    const attestation = this.attestations.find(
+        a => a.participant.toLowerCase() === participant.toLowerCase()
+    );
+    return attestation !== undefined && attestation.expiry <= this.now();
+  }
+
+  private transition(to: SessionState, status?: CoordinationStatus): void {
+    const from = this.currentState;
+    if (from === to) return;
+
+    this.currentState = to;
+    const transition: SessionTransition = { from, to, at: this.now(), status };
+    for (const listener of this.listeners) {
+      listener(transition);
+    }
+  }
+}
@@ -0,0 +1,304 @@
+/**
+ * @erc8001/sdk - Storage
+ *
+ * Durable state for coordination sessions: intents and their payloads
+ * (which execute needs but the chain doesn't return), collected
+ * attestations, acceptance conditions, and bounded-execution policy
+ * actions and token budgets.
+ */
+
+import {
+  type Hash,
+  getAddress,
+} from 'viem';
+
+import type {
+  AcceptanceAttestation,
+  ActionBound,
+  Condition,
+  StoredIntent,
+  TokenBudget,
+} from './types';
+
+import { computeIntentStructHash } from './eip712';
+
+import { KeyedLock } from './nonces';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// INTERFACE
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Persistence used by CoordinationClient and BoundedClient.
+ */
+export interface Storage {
+  /** Look up an intent by its struct hash */
+  getIntent(intentHash: Hash): Promise<StoredIntent | undefined>;
+  /** Save an intent; keyed by computeIntentStructHash(record.intent) */
+  putIntent(record: StoredIntent): Promise<void>;
+
+  /** All attestations collected for an intent */
+  getAttestations(intentHash: Hash): Promise<AcceptanceAttestation[]>;
+  /** Save an attestation, replacing any earlier one from the same participant */
+  putAttestation(attestation: AcceptanceAttestation): Promise<void>;
+
+  /** Conditions whose hash is conditionsHash */
+  getConditions(conditionsHash: Hash): Promise<Condition[] | undefined>;
+  putConditions(conditionsHash: Hash, conditions: Condition[]): Promise<void>;
+
+  /** The action set a policy was registered with */
+  getPolicyActions(policyId: Hash): Promise<ActionBound[] | undefined>;
+  putPolicyActions(policyId: Hash, actions: ActionBound[]): Promise<void>;
+  deletePolicyActions(policyId: Hash): Promise<void>;
+
+  /**
+   * A policy's client-side token limits and spending. Optional so older
+   * implementations keep compiling; without them BoundedClient keeps
+   * token budgets in memory, and they are lost on restart.
+   */
+  getTokenBudget?(policyId: Hash): Promise<TokenBudget | undefined>;
+  putTokenBudget?(policyId: Hash, budget: TokenBudget): Promise<void>;
+  deleteTokenBudget?(policyId: Hash): Promise<void>;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// KEY-VALUE BASE
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Implements Storage on top of a string key-value store.
+ * Adapters only provide read, write and remove.
+ */
+export abstract class KeyValueStorage implements Storage {
+  private readonly locks: KeyedLock = new KeyedLock();
+
+  protected abstract read(key: string): Promise<string | undefined>;
+  protected abstract write(key: string, value: string): Promise<void>;
+  protected abstract remove(key: string): Promise<void>;
+
+  async getIntent(intentHash: Hash): Promise<StoredIntent | undefined> {
+    return this.readJson<StoredIntent>(`intent:${intentHash.toLowerCase()}`);
+  }
+
+  async putIntent(record: StoredIntent): Promise<void> {
+    const intentHash = computeIntentStructHash(record.intent);
+    await this.writeJson(`intent:${intentHash.toLowerCase()}`, record);
+  }
+
+  async getAttestations(intentHash: Hash): Promise<AcceptanceAttestation[]> {
+    return await this.readJson<AcceptanceAttestation[]>(
+        `attestations:${intentHash.toLowerCase()}`
+    ) ?? [];
+  }
+
+  async putAttestation(attestation: AcceptanceAttestation): Promise<void> {
+    const key = `attestations:${attestation.intentHash.toLowerCase()}`;
+    const participant = getAddress(attestation.participant);
+
+    await this.locks.run(key, async () => {
+      const existing = await this.readJson<AcceptanceAttestation[]>(key) ?? [];
+      const others = existing.filter(a => getAddress(a.participant) !== participant);
+      await this.writeJson(key, [...others, attestation]);
+    });
+  }
+
+  async getConditions(conditionsHash: Hash): Promise<Condition[] | undefined> {
+    return this.readJson<Condition[]>(`conditions:${conditionsHash.toLowerCase()}`);
+  }
+
+  async putConditions(conditionsHash: Hash, conditions: Condition[]): Promise<void> {
+    await this.writeJson(`conditions:${conditionsHash.toLowerCase()}`, conditions);
+  }
+
+  async getPolicyActions(policyId: Hash): Promise<ActionBound[] | undefined> {
+    return this.readJson<ActionBound[]>(`policy:${policyId.toLowerCase()}`);
+  }
+
+  async putPolicyActions(policyId: Hash, actions: ActionBound[]): Promise<void> {
+    await this.writeJson(`policy:${policyId.toLowerCase()}`, actions);
+  }
+
+  async deletePolicyActions(policyId: Hash): Promise<void> {
+    await this.remove(`policy:${policyId.toLowerCase()}`);
+  }
+
+  async getTokenBudget(policyId: Hash): Promise<TokenBudget | undefined> {
+    return this.readJson<TokenBudget>(`tokens:${policyId.toLowerCase()}`);
+  }
+
+  async putTokenBudget(policyId: Hash, budget: TokenBudget): Promise<void> {
+    await this.writeJson(`tokens:${policyId.toLowerCase()}`, budget);
+  }
+
+  async deleteTokenBudget(policyId: Hash): Promise<void> {
+    await this.remove(`tokens:${policyId.toLowerCase()}`);
+  }
+
+  private async readJson<T>(key: string): Promise<T | undefined> {
+    const raw = await this.read(key);
+    return raw === undefined ? undefined : JSON.parse(raw, reviveBigInt) as T;
+  }
+
+  private async writeJson(key: string, value: unknown): Promise<void> {
+    await this.write(key, JSON.stringify(value, replaceBigInt));
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// ADAPTERS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * In-memory storage. State is lost on restart.
+ */
+export class MemoryStorage extends KeyValueStorage {
+  private readonly values: Map<string, string> = new Map();
+
+  protected async read(key: string): Promise<string | undefined> {
+    return this.values.get(key);
+  }
+
+  protected async write(key: string, value: string): Promise<void> {
+    this.values.set(key, value);
+  }
+
+  protected async remove(key: string): Promise<void> {
+    this.values.delete(key);
+  }
+}
+
+/**
+ * Storage in a single JSON file (Node.js only).
+ * Writes go to a temporary file first and are renamed into place,
+ * so a crash mid-write never leaves a truncated file.
+ */
+export class FileStorage extends KeyValueStorage {
+  private readonly path: string;
+  private values?: Record<string, string>;
+  private loading?: Promise<Record<string, string>>;
+  private pending: Promise<void> = Promise.resolve();
+
+  constructor(path: string) {
+    super();
+    this.path = path;
+  }
+
+  protected async read(key: string): Promise<string | undefined> {
+    const values = await this.load();
+    return Object.hasOwn(values, key) ? values[key] : undefined;
+  }
+
+  protected async write(key: string, value: string): Promise<void> {
+    const values = await this.load();
+    values[key] = value;
+    await this.flush();
+  }
+
+  protected async remove(key: string): Promise<void> {
+    const values = await this.load();
+    delete values[key];
+    await this.flush();
+  }
+
+  private load(): Promise<Record<string, string>> {
+    this.loading ??= (async () => {
+      const fs = await import('node:fs/promises');
+      try {
+        this.values = JSON.parse(await fs.readFile(this.path, 'utf8')) as Record<string, string>;
+      } catch (error) {
+        if ((error as { code?: string }).code !== 'ENOENT') throw error;
+        this.values = {};
+      }
+      return this.values;
+    })();
+    return this.loading;
+  }
+
+  private flush(): Promise<void> {
+    const snapshot = JSON.stringify(this.values ?? {});
+
+    this.pending = this.pending.catch(() => undefined).then(async () => {
+      const fs = await import('node:fs/promises');
+      const tmp = `${this.path}.tmp`;
+      await fs.writeFile(tmp, snapshot, 'utf8');
+      await fs.rename(tmp, this.path);
+    });
+
+    return this.pending;
+  }
+}
+
+/**
+ * The subset of a synchronous SQLite driver used by SqliteStorage.
+ * Satisfied by better-sqlite3 and node:sqlite's DatabaseSync.
+ */
+export interface SqliteDatabase {
+  exec(sql: string): unknown;
+  prepare(sql: string): {
+    run(...params: unknown[]): unknown;
+    get(...params: unknown[]): unknown;
+  };
+}
+
+/**
+ * Storage in a SQLite table.
+ *
+ * @example
+ * ```ts
+ * import Database from 'better-sqlite3';
+ *
+ * const storage = new SqliteStorage(new Database('agent.db'));
+ * ```
+ */
+export class SqliteStorage extends KeyValueStorage {
+  private readonly db: SqliteDatabase;
+  private readonly table: string;
+
+  /**
+   * @param db An open database handle
+   * @param table Table name (created if missing)
+   */
+  constructor(db: SqliteDatabase, table: string = 'erc8001_storage') {
+    super();
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(table)) {
+      throw new Error(`Invalid table name: ${table}`);
+    }
+    this.db = db;
+    this.table = table;
+    this.db.exec(
+        `CREATE TABLE IF NOT EXISTS ${table} (key TEXT PRIMARY KEY, value TEXT NOT NULL)`
+    );
+  }
+
+  protected async read(key: string): Promise<string | undefined> {
+    const row = this.db
+        .prepare(`SELECT value FROM ${this.table} WHERE key = ?`)
+        .get(key) as { value: string } | undefined;
+    return row?.value;
+  }
+
+  protected async write(key: string, value: string): Promise<void> {
+    this.db
+        .prepare(`INSERT INTO ${this.table} (key, value) VALUES (?, ?) ON CONFLICT(key) DO UPDATE SET value = excluded.value`)
+        .run(key, value);
+  }
+
+  protected async remove(key: string): Promise<void> {
+    this.db.prepare(`DELETE FROM ${this.table} WHERE key = ?`).run(key);
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// HELPERS
+// ═══════════════════════════════════════════════════════════════════════════
+
+function replaceBigInt(_key: string, value: unknown): unknown {
+  return typeof value === 'bigint' ? { $bigint: value.toString() } : value;
+}
+
+function reviveBigInt(_key: string, value: unknown): unknown {
+  if (typeof value === 'object' && value !== null && '$bigint' in value) {
+    return BigInt((value as { $bigint: string }).$bigint);
+  }
+  return value;
+}
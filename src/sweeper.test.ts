@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest';
+import type { Hash } from 'viem';
+
+import type { CoordinationEvent, CoordinationStatus, GetEventsOptions } from './types';
+import { Status } from './types';
+import type { CoordinationClient } from './coordination';
+import { Sweeper } from './sweeper';
+
+const hashes = [1, 2, 3, 4].map(i => `0x${i.toString(16).padStart(64, '0')}` as Hash);
+
+/**
+ * A CoordinationClient stand-in whose chain state the test controls.
+ */
+function fakeClient() {
+  const chain = {
+    block: 100n,
+    proposals: [] as Array<{ intentHash: Hash; blockNumber: bigint }>,
+    statuses: new Map<Hash, CoordinationStatus>(),
+    queries: [] as Array<[unknown, unknown]>,
+    gasPerBatch: 100n,
+    /** Intents a cancel transaction actually cancels (default: all) */
+    cancels: (batch: Hash[]) => batch,
+    sent: [] as Hash[][],
+  };
+
+  const client = {
+    getBlockNumber: async () => chain.block,
+    getEvents: async ({ fromBlock, toBlock }: GetEventsOptions) => {
+      chain.queries.push([fromBlock, toBlock]);
+      return chain.proposals
+          .filter(p => p.blockNumber >= (fromBlock as bigint) && p.blockNumber <= (toBlock as bigint))
+          .map(p => ({ eventName: 'CoordinationProposed', removed: false, ...p }) as CoordinationEvent);
+    },
+    getStatus: async (intentHash: Hash) => chain.statuses.get(intentHash),
+    estimateCancelGas: async () => chain.gasPerBatch,
+    cancelMany: async (batch: Hash[]) => {
+      chain.sent.push(batch);
+      return { txHash: `0x${'ff'.repeat(32)}` };
+    },
+    confirmCancelled: async (_txHash: Hash, batch: Hash[]) => chain.cancels(batch),
+  } as unknown as CoordinationClient;
+
+  return { chain, client };
+}
+
+function propose(chain: ReturnType<typeof fakeClient>['chain'], intentHash: Hash, blockNumber: bigint, expiry = 50n) {
+  chain.proposals.push({ intentHash, blockNumber });
+  chain.statuses.set(intentHash, { status: Status.Proposed, expiry } as CoordinationStatus);
+}
+
+describe('Sweeper', () => {
+  it('scans each block range once, in chunks up to the latest block', async () => {
+    const { chain, client } = fakeClient();
+    const sweeper = new Sweeper({ client, fromBlock: 10n, maxBlockRange: 40n, now: () => 100n });
+    propose(chain, hashes[0], 20n);
+
+    expect(await sweeper.findExpired()).toEqual({ scanned: 1, expired: [hashes[0]] });
+    expect(chain.queries).toEqual([[10n, 49n], [50n, 89n], [90n, 100n]]);
+
+    chain.queries = [];
+    await sweeper.findExpired();
+    expect(chain.queries).toEqual([]);
+
+    chain.block = 120n;
+    propose(chain, hashes[1], 110n);
+    expect((await sweeper.findExpired()).expired).toEqual([hashes[0], hashes[1]]);
+    expect(chain.queries).toEqual([[101n, 120n]]);
+  });
+
+  it('drops intents once they have ended', async () => {
+    const { chain, client } = fakeClient();
+    const sweeper = new Sweeper({ client, fromBlock: 0n, now: () => 10n });
+    propose(chain, hashes[0], 1n);
+    propose(chain, hashes[1], 2n);
+
+    expect(await sweeper.findExpired()).toEqual({ scanned: 2, expired: [] });
+
+    chain.statuses.set(hashes[0], { status: Status.Executed, expiry: 50n } as CoordinationStatus);
+    expect((await sweeper.findExpired()).scanned).toBe(2);
+    expect((await sweeper.findExpired()).scanned).toBe(1);
+  });
+
+  it('skips batches that would exceed maxGas', async () => {
+    const { chain, client } = fakeClient();
+    const sweeper = new Sweeper({ client, fromBlock: 0n, batchSize: 1, maxGas: 250n, now: () => 100n });
+    hashes.slice(0, 3).forEach((h, i) => propose(chain, h, BigInt(i)));
+
+    const report = await sweeper.sweep();
+
+    expect(report.cancelled).toEqual([hashes[0], hashes[1]]);
+    expect(report.skipped).toEqual([hashes[2]]);
+    expect(report.gasEstimated).toBe(200n);
+    expect(chain.sent).toEqual([[hashes[0]], [hashes[1]]]);
+  });
+
+  it('reports intents a mined batch did not cancel as failed, and retries them', async () => {
+    const { chain, client } = fakeClient();
+    const sweeper = new Sweeper({ client, fromBlock: 0n, now: () => 100n });
+    propose(chain, hashes[0], 1n);
+    propose(chain, hashes[1], 2n);
+    chain.cancels = (batch) => batch.filter(h => h !== hashes[1]);
+
+    const report = await sweeper.sweep();
+
+    expect(report.cancelled).toEqual([hashes[0]]);
+    expect(report.failed).toHaveLength(1);
+    expect(report.failed[0].intentHashes).toEqual([hashes[1]]);
+
+    expect(await sweeper.findExpired()).toEqual({ scanned: 1, expired: [hashes[1]] });
+  });
+});
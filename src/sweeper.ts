@@ -0,0 +1,240 @@
+/**
+ * @erc8001/sdk - Sweeper
+ *
+ * Keeper that finds coordinations left open past their expiry and
+ * cancels them, so they stop showing up as pending.
+ */
+
+import {
+  type Address,
+  type Hash,
+} from 'viem';
+
+import type {
+  SweepReport,
+  WriteOptions,
+} from './types';
+
+import { Status } from './types';
+
+import type { CoordinationClient } from './coordination';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// SWEEPER CLASS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Cancels expired coordinations that are still Proposed or Ready.
+ *
+ * Intents are discovered from CoordinationProposed logs. Each run only
+ * queries logs since the previous one, in ranges of at most maxBlockRange
+ * blocks, and keeps checking intents that are still open until they end.
+ *
+ * @example
+ * ```ts
+ * const sweeper = new Sweeper({ client, fromBlock: deploymentBlock, reason: 'expired', maxGas: 2_000_000n });
+ *
+ * const stop = sweeper.start(60_000, {
+ *   onReport: (report) => console.log(`cancelled ${report.cancelled.length}`),
+ * });
+ * ```
+ */
+export class Sweeper {
+  private readonly client: CoordinationClient;
+  private readonly reason: string;
+  private readonly batchSize: number;
+  private readonly maxGas?: bigint;
+  private readonly maxBlockRange: bigint;
+  private readonly proposer?: Address;
+  private readonly now: () => bigint;
+  private readonly writeOptions?: WriteOptions;
+
+  private fromBlock: bigint;
+  private readonly open: Set<Hash> = new Set();
+
+  constructor(options: {
+    client: CoordinationClient;
+    /** Reason passed to cancelCoordination (default: 'expired') */
+    reason?: string;
+    /** Intents per status read and per cancel transaction (default: 20) */
+    batchSize?: number;
+    /** Upper bound on the summed gas estimates of one run */
+    maxGas?: bigint;
+    /**
+     * First block to scan for proposals, e.g. the contract's deployment
+     * block. Required so the first scan doesn't query the whole chain.
+     */
+    fromBlock: bigint;
+    /** Most blocks per log query (default: 5,000) */
+    maxBlockRange?: bigint;
+    /** Only sweep intents from this proposer */
+    proposer?: Address;
+    /** Local clock in unix seconds (default: Date.now) */
+    now?: () => bigint;
+    writeOptions?: WriteOptions;
+  }) {
+    if (options.batchSize !== undefined && options.batchSize < 1) {
+      throw new Error('batchSize must be at least 1');
+    }
+    if (options.maxBlockRange !== undefined && options.maxBlockRange < 1n) {
+      throw new Error('maxBlockRange must be at least 1');
+    }
+
+    this.client = options.client;
+    this.reason = options.reason ?? 'expired';
+    this.batchSize = options.batchSize ?? 20;
+    this.maxGas = options.maxGas;
+    this.maxBlockRange = options.maxBlockRange ?? 5_000n;
+    this.fromBlock = options.fromBlock;
+    this.proposer = options.proposer;
+    this.now = options.now ?? (() => BigInt(Math.floor(Date.now() / 1000)));
+    this.writeOptions = options.writeOptions;
+  }
+
+  /**
+   * Find intents past their expiry whose status is still Proposed or Ready.
+   * Intents seen to have ended are dropped from later scans.
+   */
+  async findExpired(): Promise<{ scanned: number; expired: Hash[] }> {
+    // Scan up to a fixed block, so the cursor can move past it even
+    // when no proposal was made; a failed range is retried next run
+    const latest = await this.client.getBlockNumber();
+    while (this.fromBlock <= latest) {
+      const toBlock = this.fromBlock + this.maxBlockRange - 1n < latest
+          ? this.fromBlock + this.maxBlockRange - 1n
+          : latest;
+      const events = await this.client.getEvents({
+        eventNames: ['CoordinationProposed'],
+        fromBlock: this.fromBlock,
+        toBlock,
+        participant: this.proposer,
+      });
+
+      for (const event of events) {
+        if (!event.removed) this.open.add(event.intentHash);
+      }
+      this.fromBlock = toBlock + 1n;
+    }
+
+    const candidates = [...this.open];
+    const now = this.now();
+    const expired: Hash[] = [];
+
+    for (const batch of chunk(candidates, this.batchSize)) {
+      const statuses = await Promise.all(batch.map(h => this.client.getStatus(h)));
+
+      statuses.forEach((status, i) => {
+        const intentHash = batch[i];
+        const isOpen = status.status === Status.Proposed || status.status === Status.Ready;
+
+        if (!isOpen) {
+          this.open.delete(intentHash);
+        } else if (status.expiry <= now) {
+          expired.push(intentHash);
+        }
+      });
+    }
+
+    return { scanned: candidates.length, expired };
+  }
+
+  /**
+   * Find expired intents and cancel them in batches, waiting for each
+   * batch to be mined. Stops sending once the next batch would exceed maxGas.
+   */
+  async sweep(): Promise<SweepReport> {
+    const { scanned, expired } = await this.findExpired();
+
+    const report: SweepReport = {
+      scanned,
+      expired,
+      cancelled: [],
+      skipped: [],
+      failed: [],
+      txHashes: [],
+      gasEstimated: 0n,
+    };
+
+    const batches = chunk(expired, this.batchSize);
+    for (let i = 0; i < batches.length; i++) {
+      const batch = batches[i];
+
+      try {
+        if (this.maxGas !== undefined) {
+          const gas = await this.client.estimateCancelGas(batch, this.reason);
+          if (report.gasEstimated + gas > this.maxGas) {
+            report.skipped = batches.slice(i).flat();
+            break;
+          }
+          report.gasEstimated += gas;
+        }
+
+        const { txHash } = await this.client.cancelMany(batch, this.reason, this.writeOptions);
+        report.txHashes.push(txHash);
+
+        // Calls may fail individually; only confirmed cancellations are
+        // dropped, the rest are rechecked on the next run
+        const confirmed = await this.client.confirmCancelled(txHash, batch);
+        report.cancelled.push(...confirmed);
+        confirmed.forEach(h => this.open.delete(h));
+
+        const unconfirmed = batch.filter(h => !confirmed.includes(h));
+        if (unconfirmed.length > 0) {
+          report.failed.push({
+            intentHashes: unconfirmed,
+            error: new Error(`Transaction ${txHash} did not cancel ${unconfirmed.length} intent(s)`),
+          });
+        }
+      } catch (error) {
+        report.failed.push({ intentHashes: batch, error });
+      }
+    }
+
+    return report;
+  }
+
+  /**
+   * Run sweep() on an interval. Runs never overlap.
+   *
+   * @returns A function that stops the sweeper
+   */
+  start(
+      intervalMs: number,
+      handlers?: {
+        onReport?: (report: SweepReport) => void;
+        onError?: (error: unknown) => void;
+      }
+  ): () => void {
+    let stopped = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const run = async () => {
+      try {
+        const report = await this.sweep();
+        if (!stopped) handlers?.onReport?.(report);
+      } catch (error) {
+        if (!stopped) handlers?.onError?.(error);
+      }
+      if (!stopped) timer = setTimeout(run, intervalMs);
+    };
+
+    void run();
+
+    return () => {
+      stopped = true;
+      clearTimeout(timer);
+    };
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// HELPERS
+// ═══════════════════════════════════════════════════════════════════════════
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest';
+import { encodeFunctionData, erc20Abi, getAddress } from 'viem';
+
+import type { TokenSpend } from './types';
+import {
+  addTokenSpending,
+  applyTokenSpend,
+  createTokenBudget,
+  decodeTokenSpend,
+  getTokenAllowance,
+  getTokenUsage,
+  remainingTokenBudget,
+  tokenSpendCost,
+} from './tokens';
+
+const usdc = getAddress('0x00000000000000000000000000000000000000c1');
+const dai = getAddress('0x00000000000000000000000000000000000000c2');
+const router = getAddress('0x00000000000000000000000000000000000000a1');
+const vault = getAddress('0x00000000000000000000000000000000000000a2');
+
+function approve(spender: `0x${string}`, amount: bigint): TokenSpend {
+  return { token: usdc, method: 'approve', to: spender, amount };
+}
+
+describe('decodeTokenSpend', () => {
+  it('decodes transfer, approve and transferFrom', () => {
+    const transfer = encodeFunctionData({ abi: erc20Abi, functionName: 'transfer', args: [vault, 5n] });
+    const approval = encodeFunctionData({ abi: erc20Abi, functionName: 'approve', args: [router, 6n] });
+    const pull = encodeFunctionData({ abi: erc20Abi, functionName: 'transferFrom', args: [router, vault, 7n] });
+
+    expect(decodeTokenSpend(usdc, transfer)).toEqual({ token: usdc, method: 'transfer', to: vault, amount: 5n });
+    expect(decodeTokenSpend(usdc, approval)).toEqual({ token: usdc, method: 'approve', to: router, amount: 6n });
+    expect(decodeTokenSpend(usdc, pull)).toEqual({ token: usdc, method: 'transferFrom', to: vault, amount: 7n });
+  });
+
+  it('ignores other and malformed calls', () => {
+    const balance = encodeFunctionData({ abi: erc20Abi, functionName: 'balanceOf', args: [vault] });
+
+    expect(decodeTokenSpend(usdc, balance)).toBeUndefined();
+    expect(decodeTokenSpend(usdc, '0xa9059cbb')).toBeUndefined();
+  });
+});
+
+describe('token budgets', () => {
+  it('checksums limits and refuses negative ones', () => {
+    const budget = createTokenBudget({ [usdc.toLowerCase()]: 100n });
+
+    expect(budget.limits).toEqual({ [getAddress(usdc)]: 100n });
+    expect(() => createTokenBudget({ [usdc]: -1n })).toThrow(/must not be negative/);
+  });
+
+  it('tracks spending and refunds against the limit', () => {
+    let budget = createTokenBudget({ [usdc]: 100n });
+    budget = addTokenSpending(budget, usdc, 70n);
+    expect(remainingTokenBudget(budget, usdc)).toBe(30n);
+
+    budget = addTokenSpending(budget, usdc, -20n);
+    expect(remainingTokenBudget(budget, usdc)).toBe(50n);
+
+    budget = addTokenSpending(budget, usdc, -500n);
+    expect(budget.spent[usdc]).toBe(0n);
+  });
+
+  it('has no remaining amount for unlimited tokens', () => {
+    expect(remainingTokenBudget(createTokenBudget({ [usdc]: 1n }), dai)).toBeUndefined();
+  });
+
+  it('charges approvals as the change in allowance', () => {
+    let budget = createTokenBudget({ [usdc]: 100n });
+
+    budget = applyTokenSpend(budget, approve(router, 60n));
+    expect(budget.spent[usdc]).toBe(60n);
+    expect(getTokenAllowance(budget, usdc, router)).toBe(60n);
+
+    // Re-approving replaces the allowance rather than adding to it
+    expect(tokenSpendCost(budget, approve(router, 80n))).toBe(20n);
+    budget = applyTokenSpend(budget, approve(router, 80n));
+    expect(budget.spent[usdc]).toBe(80n);
+
+    // Revoking gives the budget back
+    budget = applyTokenSpend(budget, approve(router, 0n));
+    expect(budget.spent[usdc]).toBe(0n);
+    expect(remainingTokenBudget(budget, usdc)).toBe(100n);
+  });
+
+  it('tracks allowances per spender', () => {
+    let budget = createTokenBudget({ [usdc]: 100n });
+    budget = applyTokenSpend(budget, approve(router, 30n));
+    budget = applyTokenSpend(budget, approve(vault, 40n));
+
+    expect(budget.spent[usdc]).toBe(70n);
+    expect(tokenSpendCost(budget, approve(vault, 40n))).toBe(0n);
+  });
+
+  it('charges transfers and transferFroms in full', () => {
+    const budget = createTokenBudget({ [usdc]: 100n });
+    const pull: TokenSpend = { token: usdc, method: 'transferFrom', to: vault, amount: 25n };
+
+    expect(tokenSpendCost(budget, pull)).toBe(25n);
+    expect(applyTokenSpend(budget, pull).spent[usdc]).toBe(25n);
+  });
+
+  it('reports usage of limited and spent tokens', () => {
+    let budget = createTokenBudget({ [usdc]: 100n });
+    budget = addTokenSpending(budget, usdc, 40n);
+    budget = addTokenSpending(budget, dai, 5n);
+
+    expect(getTokenUsage(budget)).toEqual([
+      { token: usdc, limit: 100n, spent: 40n, remaining: 60n },
+      { token: dai, spent: 5n },
+    ]);
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * @erc8001/sdk - Token Budgets
+ *
+ * ERC-20 call decoding and per-token budget bookkeeping, so token
+ * spending counts against a policy the way native value does.
+ */
+
+import {
+  type Address,
+  type Hex,
+  decodeFunctionData,
+  erc20Abi,
+  getAddress,
+} from 'viem';
+
+import type {
+  TokenBudget,
+  TokenSpend,
+  TokenUsage,
+} from './types';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// DECODING
+// ═══════════════════════════════════════════════════════════════════════════
+
+const SPENDING_SELECTORS = new Set(['0xa9059cbb', '0x095ea7b3', '0x23b872dd']);
+
+/**
+ * Decode an ERC-20 transfer, approve or transferFrom call.
+ * Returns undefined for any other call data.
+ */
+export function decodeTokenSpend(target: Address, callData: Hex): TokenSpend | undefined {
+  if (!SPENDING_SELECTORS.has(callData.slice(0, 10).toLowerCase())) {
+    return undefined;
+  }
+
+  let decoded;
+  try {
+    decoded = decodeFunctionData({ abi: erc20Abi, data: callData });
+  } catch {
+    return undefined;
+  }
+
+  const token = getAddress(target);
+  switch (decoded.functionName) {
+    case 'transfer':
+      return { token, method: 'transfer', to: getAddress(decoded.args[0]), amount: decoded.args[1] };
+    case 'approve':
+      return { token, method: 'approve', to: getAddress(decoded.args[0]), amount: decoded.args[1] };
+    case 'transferFrom':
+      return { token, method: 'transferFrom', to: getAddress(decoded.args[1]), amount: decoded.args[2] };
+    default:
+      return undefined;
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// BUDGETS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * A budget with the given limits and nothing spent.
+ */
+export function createTokenBudget(limits: Record<Address, bigint>): TokenBudget {
+  const checksummed: Record<Address, bigint> = {};
+  for (const [token, limit] of Object.entries(limits)) {
+    if (limit < 0n) {
+      throw new Error(`Token limit for ${token} must not be negative`);
+    }
+    checksummed[getAddress(token)] = limit;
+  }
+  return { limits: checksummed, spent: {}, allowances: {} };
+}
+
+/**
+ * Amount of a token still spendable, or undefined if it has no limit.
+ */
+export function remainingTokenBudget(budget: TokenBudget, token: Address): bigint | undefined {
+  const key = getAddress(token);
+  const limit = budget.limits[key];
+  if (limit === undefined) return undefined;
+  const remaining = limit - (budget.spent[key] ?? 0n);
+  return remaining > 0n ? remaining : 0n;
+}
+
+/**
+ * The budget after a spend (or, with a negative amount, a refund).
+ */
+export function addTokenSpending(budget: TokenBudget, token: Address, amount: bigint): TokenBudget {
+  const key = getAddress(token);
+  const spent = (budget.spent[key] ?? 0n) + amount;
+  return {
+    ...budget,
+    spent: { ...budget.spent, [key]: spent > 0n ? spent : 0n },
+  };
+}
+
+/**
+ * A spender's allowance as last approved through the budget, or 0.
+ */
+export function getTokenAllowance(budget: TokenBudget, token: Address, spender: Address): bigint {
+  return budget.allowances[getAddress(token)]?.[getAddress(spender)] ?? 0n;
+}
+
+/**
+ * Amount a spend adds to its token's spending. An approve only adds the
+ * change from the spender's current allowance, and gives budget back
+ * when it lowers one.
+ */
+export function tokenSpendCost(budget: TokenBudget, spend: TokenSpend): bigint {
+  if (spend.method !== 'approve') return spend.amount;
+  return spend.amount - getTokenAllowance(budget, spend.token, spend.to);
+}
+
+/**
+ * The budget after a spend, with an approve replacing the spender's allowance.
+ */
+export function applyTokenSpend(budget: TokenBudget, spend: TokenSpend): TokenBudget {
+  const next = addTokenSpending(budget, spend.token, tokenSpendCost(budget, spend));
+  if (spend.method !== 'approve') return next;
+
+  const token = getAddress(spend.token);
+  return {
+    ...next,
+    allowances: {
+      ...next.allowances,
+      [token]: { ...next.allowances[token], [getAddress(spend.to)]: spend.amount },
+    },
+  };
+}
+
+/**
+ * Usage of every limited or spent token.
+ */
+export function getTokenUsage(budget: TokenBudget): TokenUsage[] {
+  const tokens = new Set([...Object.keys(budget.limits), ...Object.keys(budget.spent)] as Address[]);
+
+  return [...tokens].map(token => {
+    const usage: TokenUsage = { token, spent: budget.spent[token] ?? 0n };
+    const limit = budget.limits[token];
+    if (limit !== undefined) {
+      usage.limit = limit;
+      usage.remaining = remainingTokenBudget(budget, token);
+    }
+    return usage;
+  });
+}
@@ -5,7 +5,9 @@
  * See https://eips.ethereum.org/EIPS/eip-8001
  */
 
-import type { Address, Hash, Hex } from 'viem';
+import type { Abi, AbiParameter, Address, BlockTag, Hash, Hex } from 'viem';
+
+import type { CoordinationTypeRegistry } from './registry';
 
 // ═══════════════════════════════════════════════════════════════════════════
 // ENUMS
@@ -129,6 +131,178 @@ export interface Policy {
 export interface ActionBound {
   target: Address;
   selector: Hex; // bytes4
+  /**
+   * Limits on the call's arguments. The deployed contract cannot see them:
+   * the SDK checks them locally before executing, and they only reach the
+   * leaf in trees built with constraintsInLeaf.
+   */
+  constraints?: ArgumentConstraint[];
+}
+
+/**
+ * A limit on one argument of a call, by position in the function's inputs.
+ */
+export type ArgumentConstraint =
+  | { kind: 'oneOf'; arg: number; values: Address[] }
+  | { kind: 'max'; arg: number; value: bigint }
+  | { kind: 'equals'; arg: number; value: ConstraintValue };
+
+/**
+ * A value an argument must equal. Hex strings and addresses compare
+ * case-insensitively.
+ */
+export type ConstraintValue = Address | Hex | bigint | boolean | string;
+
+export type ArgumentConstraintKind = ArgumentConstraint['kind'];
+
+/**
+ * Evaluation of a call's arguments against constraints.
+ */
+export interface ArgumentsReport {
+  satisfied: boolean;
+  failures: Array<{ constraint: ArgumentConstraint; reason: string }>;
+}
+
+/**
+ * How a BoundsTree hashes leaves and arranges them.
+ */
+export interface BoundsTreeOptions {
+  /**
+   * 'double': keccak256(keccak256(abi.encode(target, selector))), as OpenZeppelin StandardMerkleTree (default)
+   * 'single': keccak256(abi.encodePacked(target, selector)), as computeActionLeaf
+   */
+  leafHash?: 'double' | 'single';
+  /**
+   * 'standard': complete tree with leaves sorted by hash, as OpenZeppelin StandardMerkleTree (default)
+   * 'legacy': leaves in given order, padded to a power of two by repeating the last, as computeBoundsRoot
+   */
+  layout?: 'standard' | 'legacy';
+  /**
+   * Append each action's constraints hash to its leaf. Only for a contract
+   * that hashes leaves that way; the deployed BoundedExecution contract
+   * hashes target + selector, so this defaults to false and constraints
+   * are enforced client-side.
+   */
+  constraintsInLeaf?: boolean;
+}
+
+/**
+ * JSON-safe dump of a BoundsTree. With the default options this is
+ * the OpenZeppelin StandardMerkleTree 'standard-v1' format; trees with
+ * other options use 'erc8001-bounds-v1'.
+ */
+export interface BoundsTreeDump {
+  format: 'standard-v1' | 'erc8001-bounds-v1';
+  leafEncoding: ['address', 'bytes4'];
+  leafHash: 'double' | 'single';
+  layout: 'standard' | 'legacy';
+  /** Set when constraints hashes are appended to leaves */
+  constraintsInLeaf?: boolean;
+  tree: Hash[];
+  /** Constrained actions carry their encodeConstraints() output */
+  values: Array<{ value: [Address, Hex]; treeIndex: number; constraints?: Hex }>;
+}
+
+/**
+ * A proof of several leaves at once, as OpenZeppelin MerkleProof.multiProofVerify takes.
+ */
+export interface BoundsMultiProof {
+  /** Proven leaves, in the order the proof consumes them */
+  leaves: ActionBound[];
+  proof: Hash[];
+  proofFlags: boolean[];
+}
+
+/**
+ * A policy bound an action can fail, in the order they are checked.
+ */
+export type PolicyBound = 'active' | 'window' | 'calls' | 'membership' | 'arguments' | 'spending' | 'tokenSpending';
+
+/**
+ * The allowed action a call falls under, or why there is none.
+ */
+export type ActionMatch =
+  | { matched: true; action: ActionBound }
+  | { matched: false; bound: 'membership' | 'arguments'; reason: string };
+
+/**
+ * Local verdict on whether a policy allows an action.
+ * A failure names the bound and carries the contract's error code.
+ */
+export type PolicyVerdict =
+  | { allowed: true }
+  | {
+      allowed: false;
+      bound: PolicyBound;
+      code:
+        | 'POLICY_INACTIVE'
+        | 'OUTSIDE_WINDOW'
+        | 'NO_CALLS_REMAINING'
+        | 'OUT_OF_BOUNDS'
+        | 'OVER_SPENDING_LIMIT'
+        | 'OVER_TOKEN_LIMIT';
+      reason: string;
+    };
+
+/**
+ * An ERC-20 call that moves or exposes a policy holder's tokens.
+ * approve counts its full amount, since the spender can pull it.
+ */
+export interface TokenSpend {
+  /** The token contract, i.e. the call's target */
+  token: Address;
+  method: 'transfer' | 'approve' | 'transferFrom';
+  /** Recipient, or the spender for approve */
+  to: Address;
+  amount: bigint;
+}
+
+/**
+ * Client-side per-token limits and spending for a policy. Amounts are
+ * in token base units, keyed by checksummed token address. The contract
+ * does not see these; BoundedClient enforces them before sending.
+ *
+ * Spending counts transfers, transferFroms and the current allowance of
+ * every spender approved. An approve replaces the spender's allowance, so
+ * only the change counts; tokens a spender later pulls with transferFrom
+ * were already counted when approved.
+ */
+export interface TokenBudget {
+  limits: Record<Address, bigint>;
+  spent: Record<Address, bigint>;
+  /** Current allowance per token, then per spender, as last approved */
+  allowances: Record<Address, Record<Address, bigint>>;
+}
+
+/**
+ * Spending of one token against its limit.
+ */
+export interface TokenUsage {
+  token: Address;
+  /** Absent when the token is tracked but not limited */
+  limit?: bigint;
+  spent: bigint;
+  remaining?: bigint;
+}
+
+/**
+ * Outcome of BoundedClient.execute().
+ * A mined transaction does not imply the inner call succeeded.
+ */
+export interface BoundedExecutionResult {
+  txHash: Hash;
+  /** Whether the inner call succeeded */
+  success: boolean;
+  /** Failure reason from BoundedExecutionFailed */
+  reason?: string;
+  /** Inner call return data, from the pre-flight simulation (absent when skipped) */
+  returnData?: Hex;
+  /** Selector that was executed */
+  selector: Hex;
+  /** Value charged against the policy by this call */
+  valueSpent: bigint;
+  /** Policy spending after this call, from SpendingUpdated */
+  newSpent?: bigint;
 }
 
 // ═══════════════════════════════════════════════════════════════════════════
@@ -191,6 +365,443 @@ export interface CoordinationCancelledEvent {
   finalStatus: number;
 }
 
+export interface PolicyRegisteredEvent {
+  policyId: Hash;
+  agent: Address;
+  boundsRoot: Hash;
+}
+
+export interface SpendingUpdatedEvent {
+  policyId: Hash;
+  agent: Address;
+  spent: bigint;
+  limit: bigint;
+}
+
+export interface BoundedExecutionSuccessEvent {
+  policyId: Hash;
+  agent: Address;
+  target: Address;
+  selector: Hex;
+  value: bigint;
+}
+
+export interface BoundedExecutionFailedEvent {
+  policyId: Hash;
+  agent: Address;
+  reason: string;
+}
+
+/**
+ * Names of the events emitted by the coordination contract.
+ */
+export type CoordinationEventName =
+  | 'CoordinationProposed'
+  | 'CoordinationAccepted'
+  | 'CoordinationExecuted'
+  | 'CoordinationCancelled';
+
+/**
+ * Log metadata attached to every decoded event.
+ */
+export interface EventLogMeta {
+  blockNumber: bigint;
+  blockHash: Hash;
+  transactionHash: Hash;
+  logIndex: number;
+  /** True when the log was removed by a chain reorganization */
+  removed: boolean;
+}
+
+/**
+ * A decoded event together with the log it came from.
+ */
+export type EventLog<T> = T & EventLogMeta;
+
+/**
+ * Any decoded coordination event, discriminated by `eventName`.
+ */
+export type CoordinationEvent =
+  | ({ eventName: 'CoordinationProposed' } & EventLog<CoordinationProposedEvent>)
+  | ({ eventName: 'CoordinationAccepted' } & EventLog<CoordinationAcceptedEvent>)
+  | ({ eventName: 'CoordinationExecuted' } & EventLog<CoordinationExecutedEvent>)
+  | ({ eventName: 'CoordinationCancelled' } & EventLog<CoordinationCancelledEvent>);
+
+/**
+ * Filter for historical event queries.
+ */
+export interface GetEventsOptions {
+  /** First block to search (default: 'earliest') */
+  fromBlock?: bigint | BlockTag;
+  /** Last block to search (default: 'latest') */
+  toBlock?: bigint | BlockTag;
+  /** Only events for this intent */
+  intentHash?: Hash;
+  /** Only events whose indexed address (proposer, participant, executor or canceller) matches */
+  participant?: Address;
+  /** Restrict to these events (default: all four) */
+  eventNames?: CoordinationEventName[];
+}
+
+/**
+ * Where to search for an intent's logs.
+ */
+export interface LogSearchOptions {
+  /**
+   * First block to search (default: the block stored with the intent,
+   * else the last 1,000 blocks). Pass 'earliest' to scan the full history.
+   */
+  fromBlock?: bigint | 'earliest';
+}
+
+/**
+ * Options for watching a single coordination event.
+ */
+export interface WatchEventsOptions<T> {
+  /** Called once per decoded event, in log order */
+  onEvent: (event: EventLog<T>) => void;
+  /** Called when the underlying subscription or poll fails */
+  onError?: (error: Error) => void;
+  /** Only events for this intent */
+  intentHash?: Hash;
+  /** Only events whose indexed address matches */
+  participant?: Address;
+  /** Polling interval for transports without subscriptions */
+  pollingInterval?: number;
+}
+
+/**
+ * Options for CoordinationClient.waitForReady().
+ */
+export interface WaitForReadyOptions {
+  /** Blocks the final acceptance must be buried under (default: 1, i.e. included) */
+  confirmations?: number;
+  /** Give up after this long (default: 60s) */
+  timeoutMs?: number;
+  /** Status polling interval when the transport can't subscribe (default: 2s) */
+  pollIntervalMs?: number;
+  /** First block to search when locating the final acceptance (default: the block stored with the intent, else the last 1,000 blocks) */
+  fromBlock?: bigint;
+  /** Abort the wait */
+  signal?: AbortSignal;
+}
+
+/**
+ * Per-call options for contract writes.
+ */
+export interface WriteOptions {
+  /** Run simulateContract before sending (default: true) */
+  simulate?: boolean;
+}
+
+/**
+ * An intent as proposed on-chain, decoded from its proposal transaction.
+ */
+export interface Proposal {
+  intent: AgentIntent;
+  /** The proposer's signature over the intent */
+  signature: Hex;
+  payload: CoordinationPayload;
+  /** The proposeCoordination transaction */
+  transactionHash: Hash;
+  blockNumber: bigint;
+}
+
+/**
+ * Options for CoordinationClient.accept().
+ */
+export interface AcceptOptions extends WriteOptions, LogSearchOptions {
+  /**
+   * Look at what is being accepted before signing. Return false to refuse;
+   * accept then throws ProposalRejectedError without signing anything.
+   */
+  inspect?: (proposal: StoredIntent) => boolean | Promise<boolean>;
+}
+
+/**
+ * Options for submitting acceptances collected off-chain.
+ */
+export interface SubmitAcceptancesOptions extends WriteOptions {
+  /**
+   * 'sequential' sends one acceptCoordination per attestation (default);
+   * 'multicall' batches them into a single Multicall3 transaction
+   */
+  mode?: 'sequential' | 'multicall';
+}
+
+/**
+ * Expiry of an on-chain acceptance, decoded from its acceptCoordination call.
+ */
+export interface AcceptanceExpiry {
+  participant: Address;
+  expiry: bigint;
+}
+
+/**
+ * Result of CoordinationClient.checkExecutable().
+ */
+export interface ExecutableCheck {
+  /** Ready, not expired, and no known acceptance has expired */
+  executable: boolean;
+  status: CoordinationStatus;
+  /** Expiries of every on-chain acceptance that could be found */
+  acceptances: AcceptanceExpiry[];
+  /** Acceptances whose expiry has passed */
+  stale: AcceptanceExpiry[];
+  /** Accepted on-chain, but the expiry could not be recovered */
+  unknown: Address[];
+  /** Participants that have not accepted */
+  missing: Address[];
+}
+
+/**
+ * Options for CoordinationClient.execute().
+ */
+export interface ExecuteOptions extends WriteOptions, LogSearchOptions {
+  /** Evaluate participants' known acceptance conditions first (default: true) */
+  checkConditions?: boolean;
+  /** Send a given payload even if its proposal can't be found to check it against (default: false) */
+  allowUnverifiedPayload?: boolean;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// COORDINATION TYPE REGISTRY
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Definition of a coordination type and its payload encoding.
+ */
+export interface CoordinationTypeDefinition {
+  /** Type name; its keccak256 is the coordinationType hash, e.g. "ERC8001.TRADE_V1" */
+  name: string;
+  /** Payload format id written to CoordinationPayload.version */
+  version: Hash;
+  /** ABI parameter coordinationData is encoded as (usually a named tuple) */
+  data: AbiParameter;
+  /** ABI parameter conditions are encoded as before hashing into conditionsHash */
+  conditions?: AbiParameter;
+  /** Throws if decoded data is not acceptable for the given (canonical) participants */
+  validate?: (data: unknown, participants: Address[]) => void;
+}
+
+/**
+ * A payload given as a typed object of a registered coordination type.
+ */
+export interface TypedPayload<TData = unknown, TConditions = unknown> {
+  /** Registered type name or coordinationType hash */
+  type: string;
+  data: TData;
+  /** Hashed into conditionsHash (default: zero hash) */
+  conditions?: TConditions;
+  metadata?: Hex;
+}
+
+/**
+ * A CoordinationPayload with its coordinationData decoded.
+ */
+export interface DecodedPayload<TData = unknown> {
+  name: string;
+  coordinationType: Hash;
+  version: Hash;
+  data: TData;
+  conditionsHash: Hash;
+  timestamp: bigint;
+  metadata: Hex;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// PAYLOAD SCHEMAS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * One participant's side of a TRADE, SWAP or PAYMENT.
+ */
+export interface PayloadLeg {
+  participant: Address;
+  /** ERC-20 token, or the zero address for the native currency */
+  token: Address;
+  /** Positive: the participant receives; negative: the participant pays */
+  amount: bigint;
+  /** Where received tokens are sent (usually the participant) */
+  recipient: Address;
+}
+
+/**
+ * coordinationData of ERC8001.TRADE_V1.
+ */
+export interface TradeData {
+  legs: PayloadLeg[];
+  /** Unix seconds after which the trade must not settle */
+  deadline: bigint;
+}
+
+/**
+ * coordinationData of ERC8001.SWAP_V1.
+ */
+export interface SwapData {
+  legs: PayloadLeg[];
+  /** Tolerated shortfall on received amounts, in basis points */
+  slippageBps: number;
+  /** Unix seconds after which the swap must not settle */
+  deadline: bigint;
+}
+
+/**
+ * coordinationData of ERC8001.PAYMENT_V1.
+ */
+export interface PaymentData {
+  legs: PayloadLeg[];
+  /** Unix seconds after which the payment must not settle */
+  deadline: bigint;
+  /** Caller-defined reference, e.g. an invoice id */
+  reference: Hash;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// CONDITIONS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * A constraint a participant attaches to their acceptance.
+ * Its hash goes into AcceptanceAttestation.conditionsHash.
+ */
+export type Condition =
+  /** The recipient receives at least `amount` of `token` from the payload's legs */
+  | { kind: 'minReceived'; token: Address; amount: bigint; recipient: Address }
+  /** Execution happens no later than `timestamp` (unix seconds) */
+  | { kind: 'deadline'; timestamp: bigint }
+  /** A Chainlink-style oracle's latest answer is within [min, max] and at most maxAge seconds old */
+  | { kind: 'oraclePrice'; oracle: Address; min: bigint; max: bigint; maxAge: bigint }
+  /** `participant` is part of the coordination and, if `mustAccept`, has accepted */
+  | { kind: 'coParticipant'; participant: Address; mustAccept: boolean };
+
+export type ConditionKind = Condition['kind'];
+
+/**
+ * Evaluation of a single condition.
+ */
+export interface ConditionResult {
+  condition: Condition;
+  satisfied: boolean;
+  /** Why the condition failed */
+  reason?: string;
+}
+
+/**
+ * Evaluation of a set of conditions.
+ */
+export interface ConditionsReport {
+  satisfied: boolean;
+  results: ConditionResult[];
+}
+
+/**
+ * Evaluation of every accepting participant's conditions for an intent.
+ */
+export interface AcceptanceConditionsReport {
+  /** No known condition failed */
+  satisfied: boolean;
+  results: Array<{ participant: Address; conditionsHash: Hash; report: ConditionsReport }>;
+  /** Participants with a non-zero conditionsHash whose conditions are not known locally */
+  unverifiable: Address[];
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// SESSION TYPES
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Client-side lifecycle of a coordination.
+ * Unlike Status, expiry is derived from the local clock rather than
+ * waiting for the contract to report it.
+ */
+export type SessionState =
+  | 'unknown'             // Not yet loaded, or intent not found
+  | 'proposed'            // No acceptances yet
+  | 'partially_accepted'  // Some, but not all, valid acceptances
+  | 'ready'               // All participants accepted and none expired
+  | 'stale'               // An acceptance expired; can never execute, re-propose instead
+  | 'executing'           // Execution transaction in flight
+  | 'executed'
+  | 'cancelled'
+  | 'expired';
+
+/**
+ * State of a submitted transaction, as CoordinationClient.getTransactionState reports it.
+ */
+export type TransactionState = 'pending' | 'success' | 'reverted' | 'dropped';
+
+/**
+ * Actions a session can perform.
+ */
+export type SessionAction = 'accept' | 'execute' | 'cancel';
+
+/**
+ * Emitted whenever a session changes state.
+ */
+export interface SessionTransition {
+  from: SessionState;
+  to: SessionState;
+  /** Local clock (unix seconds) when the transition was observed */
+  at: bigint;
+  /** On-chain status at the time, if it was just read */
+  status?: CoordinationStatus;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// SWEEPER TYPES
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Outcome of one Sweeper run.
+ */
+export interface SweepReport {
+  /** Open intents whose status was checked */
+  scanned: number;
+  /** Intents found past expiry while still Proposed or Ready */
+  expired: Hash[];
+  /** Intents whose cancellation was confirmed by a CoordinationCancelled log */
+  cancelled: Hash[];
+  /** Expired intents left for a later run because the gas cap was reached */
+  skipped: Hash[];
+  /** Batches whose estimate or submission failed, and intents a mined batch did not cancel */
+  failed: Array<{ intentHashes: Hash[]; error: unknown }>;
+  /** Transaction hashes of the cancel batches */
+  txHashes: Hash[];
+  /** Sum of the gas estimates of the sent batches */
+  gasEstimated: bigint;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// STORAGE
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * An intent as kept in Storage, with the payload needed to execute it.
+ */
+export interface StoredIntent {
+  intent: AgentIntent;
+  payload: CoordinationPayload;
+  /** Proposer's signature, when known */
+  signature?: Hex;
+  /** Block of the proposal, or one shortly before it; log searches for the intent start here */
+  blockNumber?: bigint;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// SERIALIZATION
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * A portable, domain-bound container for passing ERC-8001 objects between agents.
+ */
+export type Envelope =
+  | { kind: 'intent'; domain: ERC8001Domain; data: AgentIntent; signature?: Hex }
+  | { kind: 'payload'; domain: ERC8001Domain; data: CoordinationPayload }
+  | { kind: 'attestation'; domain: ERC8001Domain; data: AcceptanceAttestation };
+
+export type EnvelopeKind = Envelope['kind'];
+
 // ═══════════════════════════════════════════════════════════════════════════
 // BUILDER HELPERS
 // ═══════════════════════════════════════════════════════════════════════════
@@ -203,14 +814,16 @@ export interface CreateIntentOptions {
   agentId: Address;
   /** Required participants (will be auto-sorted) */
   participants: Address[];
-  /** Domain-specific coordination type */
-  coordinationType: Hash | string;
+  /** Domain-specific coordination type (default: the typed payload's type) */
+  coordinationType?: Hash | string;
   /** Optional value */
   coordinationValue?: bigint;
   /** Time-to-live in seconds (default: 1 hour) */
   ttlSeconds?: number;
-  /** The coordination payload */
-  payload: Omit<CoordinationPayload, 'timestamp'>;
+  /** The coordination payload, raw or as a typed object of a registered type */
+  payload: Omit<CoordinationPayload, 'timestamp'> | TypedPayload;
+  /** Registry used to encode a typed payload (default: defaultRegistry) */
+  registry?: CoordinationTypeRegistry;
 }
 
 /**
@@ -221,8 +834,10 @@ export interface CreateAttestationOptions {
   intentHash: Hash;
   /** The accepting participant */
   participant: Address;
-  /** Optional conditions */
+  /** Optional conditions hash */
   conditionsHash?: Hash;
+  /** Conditions to hash into conditionsHash (ignored if conditionsHash is given) */
+  conditions?: Condition[];
   /** Time-to-live in seconds (default: 1 hour) */
   ttlSeconds?: number;
 }
@@ -241,4 +856,22 @@ export interface CreatePolicyOptions {
   maxCalls: number;
   /** Duration in seconds */
   durationSeconds: number;
+  /** Per-token limits, enforced client-side (in token base units) */
+  tokenLimits?: Record<Address, bigint>;
+}
+
+/**
+ * Functions to allow on one target, for PolicyBuilder.allow().
+ */
+export interface PolicyAllowOptions {
+  /** Checksummed target address */
+  target: Address;
+  /** Function names (looked up in abi) or signatures like 'transfer(address,uint256)' */
+  functions: string[];
+  /** Target ABI; required for names, and checked against for signatures */
+  abi?: Abi;
+  /** Constraints applied to every listed function */
+  constraints?: ArgumentConstraint[];
+  /** Name shown in the summary, e.g. 'USDC' */
+  label?: string;
 }
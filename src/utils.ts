@@ -7,9 +7,6 @@
 import {
   type Address,
   type Hash,
-  type Hex,
-  keccak256,
-  encodePacked,
   getAddress,
 } from 'viem';
 
@@ -20,10 +17,17 @@ import type {
   CreateAttestationOptions,
   AcceptanceAttestation,
   ActionBound,
+  BoundsTreeOptions,
 } from './types';
 
 import { computePayloadHash } from './eip712';
 
+import { coordinationType, defaultRegistry, isTypedPayload } from './registry';
+
+import { computeConditionsHash } from './conditions';
+
+import { BoundsTree } from './merkle';
+
 // ═══════════════════════════════════════════════════════════════════════════
 // PARTICIPANT UTILITIES
 // ═══════════════════════════════════════════════════════════════════════════
@@ -72,13 +76,7 @@ export function isParticipant(address: Address, participants: Address[]): boolea
 // COORDINATION TYPE HELPERS
 // ═══════════════════════════════════════════════════════════════════════════
 
-/**
- * Create a coordination type hash from a string.
- * e.g., "TRADE_V1" => keccak256("TRADE_V1")
- */
-export function coordinationType(name: string): Hash {
-  return keccak256(encodePacked(['string'], [name]));
-}
+export { coordinationType };
 
 /**
  * Common coordination types.
@@ -120,9 +118,13 @@ export function createIntent(
   // Canonicalize
   participants = canonicalizeParticipants(participants);
 
-  // Build payload
+  // Build payload, encoding typed payloads through the registry
+  const registry = options.registry ?? defaultRegistry;
+  const basePayload = isTypedPayload(options.payload)
+      ? registry.encodePayload(options.payload, participants)
+      : options.payload;
   const payload: CoordinationPayload = {
-    ...options.payload,
+    ...basePayload,
     timestamp: BigInt(Math.floor(Date.now() / 1000)),
   };
 
@@ -133,14 +135,21 @@ export function createIntent(
   const ttl = options.ttlSeconds ?? 3600; // Default 1 hour
   const expiry = BigInt(Math.floor(Date.now() / 1000) + ttl);
 
-  // Handle coordinationType as string or hash
+  // Handle coordinationType as string or hash, defaulting to the payload's
   let coordType: Hash;
-  if (options.coordinationType.startsWith('0x') && options.coordinationType.length === 66) {
+  if (options.coordinationType === undefined) {
+    coordType = payload.coordinationType;
+  } else if (options.coordinationType.startsWith('0x') && options.coordinationType.length === 66) {
     coordType = options.coordinationType as Hash;
   } else {
     coordType = coordinationType(options.coordinationType);
   }
 
+  if (isTypedPayload(options.payload) &&
+      coordType.toLowerCase() !== payload.coordinationType.toLowerCase()) {
+    throw new Error(`coordinationType does not match the ${options.payload.type} payload`);
+  }
+
   const intent: AgentIntent = {
     payloadHash,
     expiry,
@@ -170,7 +179,7 @@ export function createAttestation(
     participant: options.participant,
     nonce: nonce ?? 0n,
     expiry,
-    conditionsHash: options.conditionsHash ?? ('0x' + '0'.repeat(64)) as Hash,
+    conditionsHash: options.conditionsHash ?? computeConditionsHash(options.conditions ?? []),
   };
 }
 
@@ -180,88 +189,35 @@ export function createAttestation(
 
 /**
  * Compute the Merkle leaf for an action bound.
- * Leaf = keccak256(abi.encodePacked(target, selector))
+ * Leaf = keccak256(abi.encodePacked(target, selector)).
  */
 export function computeActionLeaf(action: ActionBound): Hash {
-  return keccak256(
-      encodePacked(['address', 'bytes4'], [action.target, action.selector as Hex])
-  );
+  return BoundsTree.of([action], LEGACY_BOUNDS_TREE).root;
 }
 
+/**
+ * Tree options matching computeActionLeaf, computeBoundsRoot and generateProof.
+ */
+export const LEGACY_BOUNDS_TREE: BoundsTreeOptions = { leafHash: 'single', layout: 'legacy' };
+
 /**
  * Compute the Merkle root for a list of actions.
  * For a single action, the root equals the leaf.
+ * Uses the legacy layout; see BoundsTree for OpenZeppelin-compatible trees.
  */
 export function computeBoundsRoot(actions: ActionBound[]): Hash {
-  if (actions.length === 0) {
-    throw new Error('At least one action required');
-  }
-
-  // Compute leaves
-  let leaves = actions.map(computeActionLeaf);
-
-  // Pad to power of 2
-  while (leaves.length > 1 && (leaves.length & (leaves.length - 1)) !== 0) {
-    leaves.push(leaves[leaves.length - 1]);
-  }
-
-  // Build tree bottom-up
-  while (leaves.length > 1) {
-    const nextLevel: Hash[] = [];
-    for (let i = 0; i < leaves.length; i += 2) {
-      const left = leaves[i];
-      const right = leaves[i + 1] ?? left;
-      nextLevel.push(hashPair(left, right));
-    }
-    leaves = nextLevel;
-  }
-
-  return leaves[0];
+  return BoundsTree.of(actions, LEGACY_BOUNDS_TREE).root;
 }
 
 /**
  * Generate Merkle proof for an action.
+ * Uses the legacy layout; see BoundsTree for OpenZeppelin-compatible trees.
  */
 export function generateProof(actions: ActionBound[], index: number): Hash[] {
   if (index >= actions.length) {
     throw new Error('Index out of bounds');
   }
-
-  let leaves = actions.map(computeActionLeaf);
-
-  // Pad to power of 2
-  while (leaves.length > 1 && (leaves.length & (leaves.length - 1)) !== 0) {
-    leaves.push(leaves[leaves.length - 1]);
-  }
-
-  const proof: Hash[] = [];
-  let idx = index;
-
-  while (leaves.length > 1) {
-    const siblingIdx = idx % 2 === 0 ? idx + 1 : idx - 1;
-    if (siblingIdx < leaves.length) {
-      proof.push(leaves[siblingIdx]);
-    }
-
-    const nextLevel: Hash[] = [];
-    for (let i = 0; i < leaves.length; i += 2) {
-      const left = leaves[i];
-      const right = leaves[i + 1] ?? left;
-      nextLevel.push(hashPair(left, right));
-    }
-    leaves = nextLevel;
-    idx = Math.floor(idx / 2);
-  }
-
-  return proof;
-}
-
-/**
- * Hash a pair of nodes in sorted order (for deterministic trees).
- */
-function hashPair(a: Hash, b: Hash): Hash {
-  const [first, second] = BigInt(a) < BigInt(b) ? [a, b] : [b, a];
-  return keccak256(encodePacked(['bytes32', 'bytes32'], [first, second]));
+  return BoundsTree.of(actions, LEGACY_BOUNDS_TREE).getProof(index);
 }
 
 // ═══════════════════════════════════════════════════════════════════════════